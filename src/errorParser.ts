@@ -0,0 +1,58 @@
+// Extract file/line/column locations from sv2svg and parser error output.
+
+export type ToolError = {
+  // Absent when the tool only reported a line (it then refers to the rendered file)
+  file?: string;
+  line: number;
+  column?: number;
+  message: string;
+  severity: 'error' | 'warning';
+};
+
+// path:line[:col]: [error|warning:] message   (gcc/slang/verilator style)
+const FILE_LOCATION = /^(?:%(?:Error|Warning)[^:]*:\s*)?(.+?\.(?:sv|svh|v|vh|svi|svp)):(\d+)(?::(\d+))?:\s*(?:(fatal error|error|warning|note)\s*:\s*)?(.*)$/i;
+// "... at line 3, column 5", "line 3 col 5: ...", "(line 3)"
+const LINE_ONLY = /\bline\s*:?\s*(\d+)(?:\s*,?\s*col(?:umn)?\s*:?\s*(\d+))?/i;
+// Python traceback frames point into the tool itself, not the design
+const TRACEBACK_FRAME = /^\s*File ".*", line \d+/;
+
+export function parseToolErrors(output: string): ToolError[] {
+  const errors: ToolError[] = [];
+  const seen = new Set<string>();
+  const push = (e: ToolError) => {
+    const key = `${e.file ?? ''}:${e.line}:${e.column ?? ''}:${e.message}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    errors.push(e);
+  };
+
+  for (const raw of output.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || TRACEBACK_FRAME.test(raw)) continue;
+
+    const f = FILE_LOCATION.exec(line);
+    if (f) {
+      const kind = (f[4] ?? '').toLowerCase();
+      if (kind === 'note') continue;
+      push({
+        file: f[1],
+        line: Number(f[2]),
+        column: f[3] ? Number(f[3]) : undefined,
+        message: f[5].trim() || line,
+        severity: kind === 'warning' || /^%Warning/i.test(line) ? 'warning' : 'error',
+      });
+      continue;
+    }
+
+    const l = LINE_ONLY.exec(line);
+    if (l) {
+      push({
+        line: Number(l[1]),
+        column: l[2] ? Number(l[2]) : undefined,
+        message: line,
+        severity: /warning/i.test(line) && !/error/i.test(line) ? 'warning' : 'error',
+      });
+    }
+  }
+  return errors;
+}
@@ -4,8 +4,22 @@ import { promisify } from 'node:util';
 import * as os from 'node:os';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+import { SourceIndex, indexSource, findDefinition, includeNames, labelToNames, namesAt, diffSymbols } from './svSource';
+import { RenderCache, cacheKey, createRenderCache } from './renderCache';
+import { parseToolErrors } from './errorParser';
+import { PageSize, createImagePdf } from './pdf';
+import { sanitizeSvg } from './sanitize';
+import { FOLDER_CONFIG_FILE, FolderConfig, matchesGlob, optionsText, parseFolderConfig, parseMagicComments } from './fileOptions';
+import { ToolchainCheck, ToolchainFix, UV_INSTALL_URL, checkToolchain, looksLikeToolchainError, parseToolHelp, ToolHelp } from './toolchain';
+import { Netlist, TraceMode, buildNetlist, traceNet } from './netlist';
+import { SimModel, SimResult, buildSimModel, simulate, truthTable } from './simulator';
 
 const pExecFile = promisify(execFile);
+const TEMP_PREFIX = 'sv2svg-preview-';
+// 65536 rows
+const TRUTH_TABLE_MAX_INPUT_BITS = 16;
+const TRUTH_TABLE_CHUNK_ROWS = 256;
 
 type Cfg = {
   runner: string;
@@ -18,6 +32,153 @@ type Cfg = {
   autoOnOpen: boolean;
   renderTimeoutMs: number;
   excludePattern: string;
+  followCursor: boolean;
+  // Version specifier for the package uvx runs, e.g. "1.4.0" or ">=1.3,<2"
+  toolVersion: string;
+};
+
+// The settings that decide which program execFile launches
+type RunnerConfig = Pick<Cfg, 'runner' | 'runnerArgs' | 'command'>;
+
+// The user's answer for a workspace-defined runner, stored in globalState by configuration hash
+type RunnerDecision = RunnerConfig & {
+  allowed: boolean;
+  workspace?: string;
+  decidedAt: string;
+};
+
+// Per-file project context: include path, macros and an optional filelist
+type ProjectCfg = {
+  includeDirs: string[];
+  defines: Record<string, string>;
+  filelist?: string;
+};
+
+// What a source file or filelist refers to: included files, filelist members and nested
+// filelists, and +incdir+ directories
+type DependencyScan = { includes: string[]; files: string[]; filelists: string[]; includeDirs: string[] };
+
+type RenderOutcome = 'rendered' | 'failed' | 'cancelled' | 'timedout';
+
+// One render slot per panel: the in-flight process and a sequence number so
+// that only the latest request is applied.
+type RenderSlot = {
+  seq: number;
+  controller?: AbortController;
+  running?: Promise<void>;
+};
+
+// Per-render inputs beyond the file itself
+type RenderParams = {
+  module?: string;
+  // Defaults to the current render options
+  options?: Sv2SvgOptions;
+  signal?: AbortSignal;
+  // Source to render instead of the document (with useTemp), e.g. a git revision
+  text?: string;
+  // Defaults to the settings for the document's folder
+  project?: ProjectCfg;
+  // Render even when the cache has a result (which the new render replaces)
+  fresh?: boolean;
+};
+
+// Render option overrides written as "key=value flag" pairs, e.g. in a fence info string
+type OptionOverrides = {
+  options: Partial<Sv2SvgOptions>;
+  module?: string;
+};
+
+// Markdown fence render state: neither field set means the render is still pending
+type MarkdownRender = {
+  svg?: string;
+  failed?: boolean;
+};
+
+// The parts of markdown-it the fence renderer uses
+type MarkdownToken = { info?: string; content?: string };
+type MarkdownRenderRule = (tokens: MarkdownToken[], idx: number, options: unknown, env: unknown, self: MarkdownRenderer) => string;
+type MarkdownRenderer = {
+  rules: { fence?: MarkdownRenderRule };
+  renderToken(tokens: MarkdownToken[], idx: number, options: unknown): string;
+};
+type MarkdownIt = { renderer: MarkdownRenderer };
+
+// Where an effective render option value comes from, lowest precedence first
+type OptionOriginKind = 'default' | 'user' | 'workspace' | 'configFile' | 'comment';
+
+type OptionOrigin = {
+  kind: OptionOriginKind;
+  // Shown next to the option in the settings panel
+  label: string;
+};
+
+type ResolvedOptions = {
+  options: Sv2SvgOptions;
+  origins: Record<keyof Sv2SvgOptions, OptionOrigin>;
+};
+
+// Last successful render shown in a panel; re-sent when the webview (re)loads
+type PanelRender = {
+  svg: string;
+  modules: string[];
+  module?: string;
+  options: Sv2SvgOptions;
+  origins: Record<keyof Sv2SvgOptions, OptionOrigin>;
+  // Options whose flags the installed sv2svg does not list in --help
+  unsupported: (keyof Sv2SvgOptions)[];
+  toolVersion: string;
+};
+
+// An open preview panel. Unlocked previews are retargeted by Open Preview and
+// auto-open; a locked one stays tied to its document.
+type Preview = {
+  panel: vscode.WebviewPanel;
+  uri: vscode.Uri;
+  locked: boolean;
+  // Names highlighted from the editor cursor, replayed when the webview reloads
+  highlight: string[];
+};
+
+// Persisted by the webview (vscode.setState) and handed back on window reload
+type PreviewState = {
+  uri?: string;
+  module?: string;
+  locked?: boolean;
+  viewBox?: string;
+  baseViewBox?: string;
+};
+
+type ExportFormat = 'svg' | 'png' | 'pdf';
+
+// Messages a preview webview may send, as accepted by parsePreviewMessage
+type PreviewMessage =
+  | { type: 'updateSettings' | 'savePreset'; settings: Sv2SvgOptions }
+  | { type: 'resetSettings' | 'export' | 'ready' | 'checkToolchain' | 'exportTruthTable' }
+  | { type: 'applyPreset'; name: string }
+  | { type: 'rasterized'; id: number; error: string }
+  | { type: 'rasterized'; id: number; dataUrl: string; width: number; height: number; scale: number }
+  | { type: 'revealSource'; names: string[] }
+  | { type: 'trace'; names: string[]; mode: TraceMode; depth: number }
+  | { type: 'simulate'; inputs: Record<string, string> }
+  | { type: 'selectModule'; module: string };
+
+// Messages the toolchain panel may send, as accepted by parseToolchainMessage
+type ToolchainMessage =
+  | { type: 'recheck' }
+  | { type: 'fix'; check: number; fix: number };
+
+// Where a file lives in its git repository
+type GitLocation = {
+  root: string;
+  // Repository-relative path with forward slashes, as git expects in "<ref>:<path>"
+  path: string;
+};
+
+type RasterResult = {
+  data: Buffer;
+  width: number;
+  height: number;
+  scale: number;
 };
 
 type Sv2SvgOptions = {
@@ -37,10 +198,45 @@ type Sv2SvgOptions = {
   fontScale: number;
 };
 
-let sharedPanel: vscode.WebviewPanel | undefined;
-let currentUri: vscode.Uri | undefined;
+let previews: Preview[] = [];
 let changeTimers = new Map<string, NodeJS.Timeout>();
 let currentSv2SvgOptions: Sv2SvgOptions | undefined;
+let sourceIndexes = new Map<string, { version: number; index: SourceIndex }>();
+// Connectivity per file and selected module ('' for the whole file)
+let netlists = new Map<string, { version: number; netlist: Netlist }>();
+// Simulation model per file and selected module, undefined when the file declares no module
+let simModels = new Map<string, { version: number; model: SimModel | undefined }>();
+let renderSlots = new Map<vscode.WebviewPanel, RenderSlot>();
+let renderCache: RenderCache | undefined;
+let toolVersions = new Map<string, Promise<string>>();
+let toolHelp = new Map<string, Promise<ToolHelp | undefined>>();
+// Unsupported flags already reported, per runner configuration
+let warnedFlags = new Set<string>();
+let diagnostics: vscode.DiagnosticCollection | undefined;
+let log: vscode.LogOutputChannel | undefined;
+// Raw renderer output currently shown in each panel (what exports are made from)
+let panelRenders = new Map<vscode.WebviewPanel, PanelRender>();
+let markdownRenders = new Map<string, MarkdownRender>();
+let markdownQueue: Promise<void> = Promise.resolve();
+let markdownRefreshTimer: NodeJS.Timeout | undefined;
+let rasterRequests = new Map<number, (result: RasterResult | Error) => void>();
+let nextRasterId = 1;
+// Files that received diagnostics from rendering a given document (includes, filelist members)
+let diagnosticFiles = new Map<string, vscode.Uri[]>();
+let selectionTimer: NodeJS.Timeout | undefined;
+// Parsed .sv2svg.json files by path; undefined config when the file is malformed
+let folderConfigs = new Map<string, { mtimeMs: number; config?: FolderConfig }>();
+// `include names and filelist entries read from dependency files, by path
+let dependencyScans = new Map<string, { mtimeMs: number; scan: DependencyScan }>();
+let globalState: vscode.Memento | undefined;
+// Confirmation outcome per runner configuration hash for this session (a dismissed prompt counts as no)
+let runnerChecks = new Map<string, Promise<boolean>>();
+let toolchainPanel: vscode.WebviewPanel | undefined;
+// Private (0700) directory for source copies handed to the tool, created on first use and removed on deactivate
+let sessionDir: string | undefined;
+let sessionFiles = 0;
+// Last report shown in the toolchain panel; its fixes are what the panel's buttons refer to
+let toolchainChecks: ToolchainCheck[] = [];
 
 function getDefaultSv2SvgOptions(): Sv2SvgOptions {
   return {
@@ -99,9 +295,47 @@ async function saveSv2SvgOptions(options: Sv2SvgOptions): Promise<void> {
   await cfg.update('fontScale', options.fontScale, vscode.ConfigurationTarget.Workspace);
 }
 
+const OPTION_CHOICES: Partial<Record<keyof Sv2SvgOptions, readonly string[]>> = {
+  inputOrder: ['alpha', 'ports', 'auto'],
+  style: ['classic', 'blueprint', 'midnight', 'mono', 'vibrant', 'dark'],
+  orientation: ['horizontal', 'vertical'],
+};
+
+// The sv2svg flag behind each render option
+const OPTION_FLAGS: Record<keyof Sv2SvgOptions, string> = {
+  inputOrder: '--input-order',
+  gridX: '--grid-x',
+  gridY: '--grid-y',
+  noSymmetry: '--no-symmetry',
+  style: '--style',
+  orientation: '--orientation',
+  table: '--table',
+  noCaption: '--no-caption',
+  noInternalLabels: '--no-internal-labels',
+  noLabels: '--no-labels',
+  fillGates: '--fill-gates',
+  signalStyles: '--signal-styles',
+  fanoutWires: '--fanout-wires',
+  fontScale: '--font-scale',
+};
+
+// Only version specifiers, so a pinned package cannot be swapped for a URL or another project
+const VERSION_SPEC = /^(?:(?:==|!=|~=|>=|<=|>|<)\s*)?\d[\w.*+!]*(?:\s*,\s*(?:==|!=|~=|>=|<=|>|<)\s*\d[\w.*+!]*)*$/;
+
+const MARKDOWN_FENCE_LANGS = new Set(['systemverilog', 'sv']);
+// Language modes previewed regardless of file name (untitled buffers have none)
+const SV_LANGUAGE_IDS = new Set(['systemverilog']);
+const MARKDOWN_CACHE_ENTRIES = 200;
+const RUNNER_DECISIONS_KEY = 'sv2svgPreview.runnerDecisions';
+
 export function activate(context: vscode.ExtensionContext) {
   // Load saved render options or use defaults
   currentSv2SvgOptions = loadSv2SvgOptions();
+  renderCache = createCacheFromConfig(context);
+  globalState = context.globalState;
+  diagnostics = vscode.languages.createDiagnosticCollection('sv2svg');
+  log = vscode.window.createOutputChannel('Preview .sv', { log: true });
+  context.subscriptions.push(diagnostics, log);
 
   const open = vscode.commands.registerCommand('sv2svgPreview.open', async (uri?: vscode.Uri) => {
     const target = uri ?? vscode.window.activeTextEditor?.document.uri;
@@ -121,12 +355,39 @@ export function activate(context: vscode.ExtensionContext) {
     await openPreview(target, vscode.ViewColumn.Beside, context);
   });
 
+  const openLocked = vscode.commands.registerCommand('sv2svgPreview.openLocked', async (uri?: vscode.Uri) => {
+    const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+    if (!target) {
+      vscode.window.showInformationMessage('No active SystemVerilog file to preview.');
+      return;
+    }
+    await openPreview(target, vscode.ViewColumn.Beside, context, /*locked*/ true);
+  });
+
+  const toggleLock = vscode.commands.registerCommand('sv2svgPreview.toggleLock', () => {
+    const preview = activePreview();
+    if (!preview) {
+      vscode.window.showInformationMessage('Preview .sv is not open.');
+      return;
+    }
+    if (preview.locked) {
+      // Only one preview follows Open Preview: the one that was unlocked keeps its document
+      const shared = sharedPreview();
+      if (shared) setLocked(shared, true, context);
+    }
+    setLocked(preview, !preview.locked, context);
+  });
+
   const refresh = vscode.commands.registerCommand('sv2svgPreview.refresh', async () => {
-    if (!sharedPanel || !currentUri) {
+    const preview = activePreview();
+    if (!preview) {
       vscode.window.showInformationMessage('Preview .sv is not open.');
       return;
     }
-    await renderToPanel(currentUri, sharedPanel, context);
+    const outcome = await renderToPanel(preview.uri, preview.panel, context, false, /*fresh*/ true);
+    if (outcome === 'cancelled') {
+      vscode.window.setStatusBarMessage('Preview .sv: render superseded by a newer request', 2000);
+    }
   });
 
   const toggleAuto = vscode.commands.registerCommand('sv2svgPreview.toggleAuto', async () => {
@@ -137,47 +398,211 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.window.setStatusBarMessage(`Preview .sv auto-open ${!cur ? 'enabled' : 'disabled'}`, 2000);
   });
 
-  context.subscriptions.push(open, openToSide, refresh, toggleAuto);
+  const selectModule = vscode.commands.registerCommand('sv2svgPreview.selectModule', async (uri?: vscode.Uri) => {
+    const target = uri ?? activePreview()?.uri ?? vscode.window.activeTextEditor?.document.uri;
+    if (!target) {
+      vscode.window.showInformationMessage('No active SystemVerilog file to preview.');
+      return;
+    }
+    const doc = await vscode.workspace.openTextDocument(target);
+    const modules = getSourceIndex(doc).modules.map(m => m.name);
+    if (modules.length === 0) {
+      vscode.window.showInformationMessage(`No modules found in ${path.basename(target.fsPath)}.`);
+      return;
+    }
+    const selected = getSelectedModule(context, target);
+    const items: (vscode.QuickPickItem & { module?: string })[] = [
+      { label: 'All modules', description: selected ? undefined : 'current', module: undefined },
+      ...modules.map(m => ({ label: m, description: m === selected ? 'current' : undefined, module: m })),
+    ];
+    const pick = await vscode.window.showQuickPick(items, { placeHolder: 'Select the module to render' });
+    if (!pick) return;
+    await setSelectedModule(context, target, pick.module);
+    await Promise.all(previewsFor(target).map(p => renderToPanel(p.uri, p.panel, context)));
+  });
+
+  const clearCache = vscode.commands.registerCommand('sv2svgPreview.clearCache', async () => {
+    await renderCache?.clear();
+    // Also drop persisted entries left behind while persistence was enabled
+    await fs.promises.rm(getCacheDir(context), { recursive: true, force: true }).catch(() => {});
+    toolVersions.clear();
+    toolHelp.clear();
+    vscode.window.showInformationMessage('Preview .sv render cache cleared.');
+  });
+
+  const showLog = vscode.commands.registerCommand('sv2svgPreview.showLog', () => {
+    log?.show(true);
+  });
+
+  const exportCmd = vscode.commands.registerCommand('sv2svgPreview.export', async (format?: ExportFormat) => {
+    const preview = activePreview();
+    if (!preview) {
+      vscode.window.showInformationMessage('Preview .sv is not open.');
+      return;
+    }
+    await exportDiagram(preview.panel, preview.uri, format);
+  });
+
+  const exportAll = vscode.commands.registerCommand('sv2svgPreview.exportAll', async (folder?: vscode.Uri) => {
+    await exportAllSchematics(context, folder);
+  });
+
+  const applyPresetCmd = vscode.commands.registerCommand('sv2svgPreview.applyPreset', async (name?: string) => {
+    const presets = getPresets();
+    if (typeof name !== 'string') {
+      const names = Object.keys(presets);
+      if (names.length === 0) {
+        vscode.window.showInformationMessage('No presets defined (sv2svgPreview.presets).');
+        return;
+      }
+      const active = activePresetName();
+      const pick = await vscode.window.showQuickPick(names.map(n => ({
+        label: n,
+        description: n === active ? 'current' : undefined,
+        detail: describePreset(presets[n]),
+      })), { placeHolder: 'Apply a render option preset' });
+      if (!pick) return;
+      name = pick.label;
+    }
+    await applyPreset(name, context);
+  });
+
+  const manageTrustedRunners = vscode.commands.registerCommand('sv2svgPreview.manageTrustedRunners', async () => {
+    if (await manageRunnerDecisions()) {
+      await Promise.all(previews.map(p => renderToPanel(p.uri, p.panel, context)));
+    }
+  });
+
+  const checkToolchainCmd = vscode.commands.registerCommand('sv2svgPreview.checkToolchain', async () => {
+    await showToolchainCheck(context);
+  });
+
+  // Invoked with a Uri (editor, palette), an SCM resource state, or a timeline item and its Uri
+  const diffWithHead = vscode.commands.registerCommand('sv2svgPreview.diffWithHead', async (arg?: vscode.Uri | { resourceUri?: vscode.Uri; ref?: unknown; id?: unknown }, timelineUri?: vscode.Uri) => {
+    const item = arg instanceof vscode.Uri ? undefined : arg;
+    const target = timelineUri ?? (arg instanceof vscode.Uri ? arg : item?.resourceUri) ?? vscode.window.activeTextEditor?.document.uri;
+    if (!target) {
+      vscode.window.showInformationMessage('No active SystemVerilog file to compare.');
+      return;
+    }
+    if (!isSvFile(target)) {
+      vscode.window.showInformationMessage('Schematic diffs are only available for SystemVerilog files.');
+      return;
+    }
+    if (target.scheme !== 'file') {
+      vscode.window.showInformationMessage('Schematic diffs need a file saved in a local git repository.');
+      return;
+    }
+    const itemRef = typeof item?.ref === 'string' ? item.ref : typeof item?.id === 'string' ? item.id : '';
+    await showSchematicDiff(target, context, /^[0-9a-f]{7,40}$/i.test(itemRef) ? itemRef : undefined);
+  });
+
+  context.subscriptions.push(open, openToSide, openLocked, toggleLock, refresh, toggleAuto, selectModule, clearCache, showLog, exportCmd, exportAll, applyPresetCmd, manageTrustedRunners, checkToolchainCmd, diffWithHead);
+
+  // Bring the preview back after a window reload, using the state the webview saved
+  context.subscriptions.push(vscode.window.registerWebviewPanelSerializer('sv2svgPreview', {
+    async deserializeWebviewPanel(panel: vscode.WebviewPanel, state: PreviewState | undefined) {
+      await restorePreview(panel, state, context);
+    },
+  }));
+
+  context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((e) => {
+    if (e.affectsConfiguration('sv2svgPreview.cache')) {
+      renderCache = createCacheFromConfig(context);
+    }
+    if (['runner', 'runnerArgs', 'command'].some(key => e.affectsConfiguration(`sv2svgPreview.${key}`))) {
+      runnerChecks.clear();
+    }
+    if (e.affectsConfiguration('sv2svgPreview')) {
+      // Failed and outdated fence renders are retried with the new settings
+      markdownRenders.clear();
+    }
+    if (e.affectsConfiguration('sv2svgPreview.presets')) {
+      // Refresh the toolbar dropdowns
+      for (const p of previews) {
+        const render = panelRenders.get(p.panel);
+        if (render) postRender(p.panel, render);
+      }
+    }
+  }));
+
+  // Folder option files apply to every preview below them, so re-render all of them
+  const folderConfigWatcher = vscode.workspace.createFileSystemWatcher(`**/${FOLDER_CONFIG_FILE}`);
+  const rerenderAll = () => {
+    for (const p of previews) renderToPanel(p.uri, p.panel, context);
+  };
+  folderConfigWatcher.onDidChange(rerenderAll);
+  folderConfigWatcher.onDidCreate(rerenderAll);
+  folderConfigWatcher.onDidDelete(rerenderAll);
+  context.subscriptions.push(folderConfigWatcher);
 
   vscode.workspace.onDidSaveTextDocument(async (doc) => {
     const cfg = getCfg();
     if (cfg.onSave !== 'refresh') return;
-    if (sharedPanel && currentUri && doc.uri.toString() === currentUri.toString()) {
-      await renderToPanel(doc.uri, sharedPanel, context);
-    }
+    await Promise.all(previewsFor(doc.uri).map(p => renderToPanel(p.uri, p.panel, context)));
   });
 
   vscode.workspace.onDidChangeTextDocument((e) => {
     const cfg = getCfg();
-    if (!cfg.onChange) return;
-    if (!sharedPanel || !currentUri) return;
-    if (e.document.uri.toString() !== currentUri.toString()) return;
+    // Untitled buffers are never saved, so they refresh as you type instead
+    if (!cfg.onChange && !(e.document.isUntitled && cfg.onSave === 'refresh')) return;
+    if (previewsFor(e.document.uri).length === 0) return;
     const key = e.document.uri.toString();
     if (changeTimers.has(key)) clearTimeout(changeTimers.get(key)!);
     changeTimers.set(key, setTimeout(async () => {
-      await renderToPanel(e.document.uri, sharedPanel!, context, /*useTemp*/ true);
+      changeTimers.delete(key);
+      // Re-read the list: panels may have opened, closed or been retargeted meanwhile
+      await Promise.all(previewsFor(e.document.uri).map(p => renderToPanel(p.uri, p.panel, context, /*useTemp*/ true)));
     }, 500));
   });
 
   // Auto open preview on active editor change if setting enabled
   vscode.window.onDidChangeActiveTextEditor((ed) => {
     if (!ed) return;
-    maybeAutoOpen(ed.document.uri, context);
+    maybeAutoOpen(ed.document, context);
+  });
+
+  // Highlight the net or gate under the cursor in the preview
+  vscode.window.onDidChangeTextEditorSelection((e) => {
+    if (!getCfg().followCursor) return;
+    if (previewsFor(e.textEditor.document.uri).length === 0) return;
+    if (selectionTimer) clearTimeout(selectionTimer);
+    selectionTimer = setTimeout(() => {
+      selectionTimer = undefined;
+      const doc = e.textEditor.document;
+      const names = namesAtCursor(doc, e.selections[0].active, getSelectedModule(context, doc.uri));
+      for (const p of previewsFor(doc.uri)) {
+        p.highlight = names;
+        p.panel.webview.postMessage({ type: 'highlight', names });
+      }
+    }, 150);
   });
 
   // On startup, attempt auto-open for the active editor
   if (vscode.window.activeTextEditor) {
-    maybeAutoOpen(vscode.window.activeTextEditor.document.uri, context);
+    maybeAutoOpen(vscode.window.activeTextEditor.document, context);
   }
+
+  // Picked up by the built-in Markdown preview (contributes.markdown.markdownItPlugins)
+  return {
+    extendMarkdownIt(md: MarkdownIt) {
+      return extendMarkdownIt(md);
+    },
+  };
 }
 
 export function deactivate() {
-  sharedPanel?.dispose();
-  sharedPanel = undefined;
-  currentUri = undefined;
+  for (const panel of [...renderSlots.keys()]) cancelRender(panel);
+  // The panels themselves are left to the workbench so they can be serialized and restored on reload
+  previews = [];
+  if (sessionDir) {
+    try { fs.rmSync(sessionDir, { recursive: true, force: true }); } catch {}
+    sessionDir = undefined;
+  }
 }
 
-async function openPreview(uri: vscode.Uri, viewColumn: vscode.ViewColumn, ctx: vscode.ExtensionContext) {
+// Open Preview retargets the one unlocked preview; a locked preview is opened once per document
+async function openPreview(uri: vscode.Uri, viewColumn: vscode.ViewColumn, ctx: vscode.ExtensionContext, locked = false) {
   if (!vscode.workspace.isTrusted) {
     vscode.window.showWarningMessage('Workspace is not trusted. sv2svg will not be executed.');
     return;
@@ -188,62 +613,25 @@ async function openPreview(uri: vscode.Uri, viewColumn: vscode.ViewColumn, ctx:
   }
 
   const previousEditor = vscode.window.activeTextEditor;
-  currentUri = uri;
 
-  if (sharedPanel) {
+  let preview = locked ? previewsFor(uri).find(p => p.locked) : sharedPreview();
+  if (preview) {
+    if (preview.uri.toString() !== uri.toString()) preview.highlight = [];
+    preview.uri = uri;
   } else {
-    sharedPanel = vscode.window.createWebviewPanel(
+    const panel = vscode.window.createWebviewPanel(
       'sv2svgPreview',
-      makeTitle(uri),
+      makeTitle(uri, getSelectedModule(ctx, uri), locked),
       viewColumn,
       { enableScripts: true, retainContextWhenHidden: true }
     );
-    sharedPanel.onDidDispose(() => {
-      sharedPanel = undefined;
-      currentUri = undefined;
-    });
-
-    // Handle messages from the webview
-    sharedPanel.webview.onDidReceiveMessage(async (message) => {
-      switch (message.type) {
-        case 'updateSettings':
-          const newSettings = message.settings as Sv2SvgOptions;
-          currentSv2SvgOptions = newSettings;
-          await saveSv2SvgOptions(newSettings);
-          if (currentUri && sharedPanel) {
-            await renderToPanel(currentUri, sharedPanel, ctx);
-          }
-          break;
-        case 'resetSettings':
-          const defaultSettings = getDefaultSv2SvgOptions();
-          currentSv2SvgOptions = defaultSettings;
-          await saveSv2SvgOptions(defaultSettings);
-          if (currentUri && sharedPanel) {
-            await renderToPanel(currentUri, sharedPanel, ctx);
-          }
-          break;
-        case 'downloadSvg':
-          if (message.svg && currentUri) {
-            const defaultPath = currentUri.fsPath.replace(/\.(sv|svh)$/i, '.svg');
-            const saveUri = await vscode.window.showSaveDialog({
-              defaultUri: vscode.Uri.file(defaultPath),
-              filters: { 'SVG Images': ['svg'] }
-            });
-            if (saveUri) {
-              await fs.promises.writeFile(saveUri.fsPath, message.svg, 'utf8');
-              vscode.window.showInformationMessage(`SVG saved to ${path.basename(saveUri.fsPath)}`);
-            }
-          }
-          break;
-      }
-    });
-
-    try { sharedPanel.iconPath = getIcon(ctx); } catch {}
+    preview = { panel, uri, locked, highlight: [] };
+    setupPreviewPanel(preview, ctx);
   }
 
-  sharedPanel.reveal(viewColumn, true);
-  sharedPanel.title = makeTitle(uri);
-  await renderToPanel(uri, sharedPanel, ctx);
+  preview.panel.reveal(viewColumn, true);
+  preview.panel.title = makeTitle(uri, getSelectedModule(ctx, uri), locked);
+  await renderToPanel(uri, preview.panel, ctx);
 
   if (previousEditor && previousEditor.viewColumn !== undefined) {
     await vscode.window.showTextDocument(previousEditor.document, {
@@ -253,6 +641,312 @@ async function openPreview(uri: vscode.Uri, viewColumn: vscode.ViewColumn, ctx:
   }
 }
 
+// Parse "style=blueprint table no-caption fontScale=1.5 module=top". Keys may be camelCase or
+// kebab-case; bare keys set booleans; values are checked against the option's type and choices.
+function parseOptionOverrides(text: string): OptionOverrides {
+  const defaults = getDefaultSv2SvgOptions();
+  const result: OptionOverrides = { options: {} };
+  const re = /([A-Za-z][\w-]*)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s"'}]+))?/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    const key = m[1].replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+    const raw = m[2]?.replace(/^["']|["']$/g, '');
+    if (key === 'module') {
+      if (raw) result.module = raw;
+      continue;
+    }
+    if (!(key in defaults)) continue;
+    const name = key as keyof Sv2SvgOptions;
+    const def = defaults[name];
+    let value: unknown;
+    if (typeof def === 'boolean') {
+      value = raw === undefined ? true : /^(true|1|yes|on)$/i.test(raw) ? true : /^(false|0|no|off)$/i.test(raw) ? false : undefined;
+    } else if (typeof def === 'number') {
+      value = raw !== undefined && Number.isFinite(Number(raw)) ? Number(raw) : undefined;
+    } else {
+      value = raw !== undefined && (OPTION_CHOICES[name]?.includes(raw) ?? true) ? raw : undefined;
+    }
+    if (value !== undefined) (result.options as Record<string, unknown>)[name] = value;
+  }
+  return result;
+}
+
+// Wiring shared by newly created and restored (deserialized) preview panels
+function setupPreviewPanel(preview: Preview, ctx: vscode.ExtensionContext) {
+  const panel = preview.panel;
+  previews.push(preview);
+  panel.onDidDispose(() => {
+    cancelRender(panel);
+    panelRenders.delete(panel);
+    previews = previews.filter(p => p !== preview);
+  });
+
+  // Handle messages from the webview. The page also shows renderer output, so nothing it sends is trusted.
+  panel.webview.onDidReceiveMessage(async (raw: unknown) => {
+    const message = parsePreviewMessage(raw);
+    if (!message) {
+      log?.warn(`Ignoring unexpected message from the preview: ${JSON.stringify(raw)?.slice(0, 200)}`);
+      return;
+    }
+    switch (message.type) {
+      case 'updateSettings': {
+        const newSettings = settingsFromPanel(panel, message.settings);
+        currentSv2SvgOptions = newSettings;
+        await saveSv2SvgOptions(newSettings);
+        await renderToPanel(preview.uri, panel, ctx);
+        break;
+      }
+      case 'resetSettings':
+        const defaultSettings = getDefaultSv2SvgOptions();
+        currentSv2SvgOptions = defaultSettings;
+        await saveSv2SvgOptions(defaultSettings);
+        await renderToPanel(preview.uri, panel, ctx);
+        break;
+      case 'export':
+        await exportDiagram(panel, preview.uri);
+        break;
+      case 'applyPreset':
+        await applyPreset(message.name, ctx);
+        break;
+      case 'savePreset':
+        await savePreset(settingsFromPanel(panel, message.settings));
+        break;
+      case 'rasterized': {
+        const resolve = rasterRequests.get(message.id);
+        if (!resolve) break;
+        rasterRequests.delete(message.id);
+        if ('error' in message) {
+          resolve(new Error(message.error));
+        } else {
+          const data = Buffer.from(message.dataUrl.slice(message.dataUrl.indexOf(',') + 1), 'base64');
+          resolve({ data, width: message.width, height: message.height, scale: message.scale });
+        }
+        break;
+      }
+      case 'ready': {
+        // The webview document (re)loaded: replay the last render and cursor highlight
+        const last = panelRenders.get(panel);
+        if (last) postRender(panel, last);
+        if (preview.highlight.length) {
+          panel.webview.postMessage({ type: 'highlight', names: preview.highlight });
+        }
+        break;
+      }
+      case 'revealSource':
+        await revealSource(preview.uri, message.names, getSelectedModule(ctx, preview.uri));
+        break;
+      case 'trace':
+        await postTrace(panel, preview.uri, message, getSelectedModule(ctx, preview.uri));
+        break;
+      case 'simulate':
+        await postSimulation(panel, preview.uri, message.inputs, getSelectedModule(ctx, preview.uri));
+        break;
+      case 'exportTruthTable':
+        await exportTruthTable(preview.uri, getSelectedModule(ctx, preview.uri));
+        break;
+      case 'selectModule':
+        // Only modules the file declares (or '' for all of them)
+        if (message.module && !panelRenders.get(panel)?.modules.includes(message.module)) break;
+        await setSelectedModule(ctx, preview.uri, message.module || undefined);
+        await Promise.all(previewsFor(preview.uri).map(p => renderToPanel(p.uri, p.panel, ctx)));
+        break;
+      case 'checkToolchain':
+        await vscode.commands.executeCommand('sv2svgPreview.checkToolchain');
+        break;
+    }
+  });
+
+  try { panel.iconPath = getIcon(ctx); } catch {}
+  panel.webview.options = { enableScripts: true };
+  panel.webview.html = previewHtml(panel.webview);
+}
+
+function parsePreviewMessage(raw: unknown): PreviewMessage | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const m = raw as Record<string, unknown>;
+  const isString = (v: unknown, max = 256): v is string => typeof v === 'string' && v.length <= max;
+  const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+  switch (m.type) {
+    case 'updateSettings':
+    case 'savePreset': {
+      const settings = validOptions(m.settings);
+      return settings ? { type: m.type, settings } : undefined;
+    }
+    case 'resetSettings':
+    case 'export':
+    case 'ready':
+    case 'checkToolchain':
+    case 'exportTruthTable':
+      return { type: m.type };
+    case 'applyPreset':
+      return isString(m.name) ? { type: 'applyPreset', name: m.name } : undefined;
+    case 'rasterized':
+      if (!isNumber(m.id)) return undefined;
+      if (m.error !== undefined) return { type: 'rasterized', id: m.id, error: isString(m.error, 2000) ? m.error : 'Rasterization failed' };
+      // Settle the pending request either way so export does not wait for the timeout
+      if (!(typeof m.dataUrl === 'string' && /^data:image\/(?:png|jpeg);base64,/.test(m.dataUrl)) || ![m.width, m.height, m.scale].every(isNumber)) {
+        return { type: 'rasterized', id: m.id, error: 'Invalid rasterization result' };
+      }
+      return { type: 'rasterized', id: m.id, dataUrl: m.dataUrl, width: m.width as number, height: m.height as number, scale: m.scale as number };
+    case 'revealSource':
+      return Array.isArray(m.names) && m.names.length <= 32 && m.names.every(n => isString(n))
+        ? { type: 'revealSource', names: m.names as string[] }
+        : undefined;
+    case 'trace':
+      return Array.isArray(m.names) && m.names.length <= 32 && m.names.every(n => isString(n))
+        && (m.mode === 'net' || m.mode === 'fanin' || m.mode === 'fanout')
+        && isNumber(m.depth) && Number.isInteger(m.depth) && m.depth >= 0 && m.depth <= 64
+        ? { type: 'trace', names: m.names as string[], mode: m.mode, depth: m.depth }
+        : undefined;
+    case 'simulate': {
+      if (!m.inputs || typeof m.inputs !== 'object' || Array.isArray(m.inputs)) return undefined;
+      const entries = Object.entries(m.inputs as Record<string, unknown>);
+      return entries.length <= 512 && entries.every(([k, v]) => isString(k) && isString(v) && /^[01xX]*$/.test(v))
+        ? { type: 'simulate', inputs: Object.fromEntries(entries) as Record<string, string> }
+        : undefined;
+    }
+    case 'selectModule':
+      return isString(m.module) ? { type: 'selectModule', module: m.module } : undefined;
+  }
+  return undefined;
+}
+
+// A complete, well-typed option set with only the known keys, or undefined
+function validOptions(value: unknown): Sv2SvgOptions | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const v = value as Record<string, unknown>;
+  const options = getDefaultSv2SvgOptions();
+  for (const key of Object.keys(options) as (keyof Sv2SvgOptions)[]) {
+    const x = v[key];
+    if (typeof x !== typeof options[key]) return undefined;
+    if (typeof x === 'number' && !Number.isFinite(x)) return undefined;
+    if (typeof x === 'string' && !(OPTION_CHOICES[key]?.includes(x) ?? true)) return undefined;
+    (options as Record<string, unknown>)[key] = x;
+  }
+  return options;
+}
+
+// Options submitted by a panel's settings form. Values pinned by the file or a .sv2svg.json are
+// read-only there, so the settings' own values are kept for them.
+function settingsFromPanel(panel: vscode.WebviewPanel, submitted: Sv2SvgOptions): Sv2SvgOptions {
+  const settings = { ...submitted };
+  const origins = panelRenders.get(panel)?.origins;
+  const base = currentSv2SvgOptions || getDefaultSv2SvgOptions();
+  for (const key of Object.keys(base) as (keyof Sv2SvgOptions)[]) {
+    if (origins && isFileOrigin(origins[key])) (settings as Record<string, unknown>)[key] = base[key];
+  }
+  return settings;
+}
+
+// Named option sets from sv2svgPreview.presets (user and workspace values are merged by VS Code).
+// Each preset is applied on top of the defaults, so it fully determines the look.
+function getPresets(): Record<string, Partial<Sv2SvgOptions>> {
+  const raw = vscode.workspace.getConfiguration('sv2svgPreview').get<Record<string, unknown>>('presets', {});
+  const presets: Record<string, Partial<Sv2SvgOptions>> = {};
+  for (const [name, value] of Object.entries(raw ?? {})) {
+    if (value == null) continue;
+    presets[name] = parseOptionOverrides(optionsText(value) ?? '').options;
+  }
+  return presets;
+}
+
+function presetOptions(preset: Partial<Sv2SvgOptions>): Sv2SvgOptions {
+  return { ...getDefaultSv2SvgOptions(), ...preset };
+}
+
+// The preset the current settings match, if any
+function activePresetName(): string | undefined {
+  const current = currentSv2SvgOptions || getDefaultSv2SvgOptions();
+  const same = (a: Sv2SvgOptions) => (Object.keys(current) as (keyof Sv2SvgOptions)[]).every(k => a[k] === current[k]);
+  return Object.entries(getPresets()).find(([, preset]) => same(presetOptions(preset)))?.[0];
+}
+
+function describePreset(preset: Partial<Sv2SvgOptions>): string {
+  return Object.entries(preset).map(([k, v]) => v === true ? k : `${k}=${v}`).join(' ') || 'defaults';
+}
+
+async function applyPreset(name: string, ctx: vscode.ExtensionContext) {
+  const preset = getPresets()[name];
+  if (!preset) {
+    vscode.window.showWarningMessage(`Unknown preset "${name}".`);
+    return;
+  }
+  currentSv2SvgOptions = presetOptions(preset);
+  await saveSv2SvgOptions(currentSv2SvgOptions);
+  vscode.window.setStatusBarMessage(`Preview .sv: applied preset "${name}"`, 2000);
+  await Promise.all(previews.map(p => renderToPanel(p.uri, p.panel, ctx)));
+}
+
+// Store options as a preset, keeping only values that differ from the defaults
+async function savePreset(options: Sv2SvgOptions) {
+  const presets = getPresets();
+  const name = (await vscode.window.showInputBox({
+    prompt: 'Preset name',
+    value: activePresetName(),
+    validateInput: v => v.trim() ? undefined : 'Enter a name',
+  }))?.trim();
+  if (!name) return;
+  const scope = await vscode.window.showQuickPick([
+    { label: 'Workspace settings', description: 'Shared with the team through .vscode/settings.json', target: vscode.ConfigurationTarget.Workspace },
+    { label: 'User settings', description: 'Available in every workspace', target: vscode.ConfigurationTarget.Global },
+  ], { placeHolder: `Save preset "${name}" to` });
+  if (!scope) return;
+  if (name in presets) {
+    const answer = await vscode.window.showWarningMessage(`Preset "${name}" already exists. Overwrite it?`, { modal: true }, 'Overwrite');
+    if (answer !== 'Overwrite') return;
+  }
+
+  const defaults = getDefaultSv2SvgOptions();
+  const values: Record<string, unknown> = {};
+  for (const key of Object.keys(defaults) as (keyof Sv2SvgOptions)[]) {
+    if (options[key] !== defaults[key]) values[key] = options[key];
+  }
+  const cfg = vscode.workspace.getConfiguration('sv2svgPreview');
+  const inspected = cfg.inspect<Record<string, unknown>>('presets');
+  const existing = scope.target === vscode.ConfigurationTarget.Workspace ? inspected?.workspaceValue : inspected?.globalValue;
+  await cfg.update('presets', { ...(existing ?? {}), [name]: values }, scope.target);
+  vscode.window.setStatusBarMessage(`Preview .sv: saved preset "${name}"`, 2000);
+}
+
+async function restorePreview(panel: vscode.WebviewPanel, state: PreviewState | undefined, ctx: vscode.ExtensionContext) {
+  // Only one unlocked preview: a panel opened before the restore wins
+  const locked = !!state?.locked;
+  if (!state?.uri || (!locked && sharedPreview())) {
+    panel.dispose();
+    return;
+  }
+  const uri = vscode.Uri.parse(state.uri);
+  setupPreviewPanel({ panel, uri, locked, highlight: [] }, ctx);
+  if (state.module !== undefined) await setSelectedModule(ctx, uri, state.module || undefined);
+  panel.title = makeTitle(uri, getSelectedModule(ctx, uri), locked);
+  if (!vscode.workspace.isTrusted) {
+    panel.webview.postMessage({ type: 'renderError', message: 'Workspace is not trusted. sv2svg will not be executed.' });
+    return;
+  }
+  await renderToPanel(uri, panel, ctx);
+}
+
+function previewsFor(uri: vscode.Uri): Preview[] {
+  return previews.filter(p => p.uri.toString() === uri.toString());
+}
+
+function sharedPreview(): Preview | undefined {
+  return previews.find(p => !p.locked);
+}
+
+// The focused preview, otherwise the unlocked one, otherwise the most recently opened
+function activePreview(): Preview | undefined {
+  return previews.find(p => p.panel.active) ?? sharedPreview() ?? previews[previews.length - 1];
+}
+
+function setLocked(preview: Preview, locked: boolean, ctx: vscode.ExtensionContext) {
+  preview.locked = locked;
+  preview.panel.title = makeTitle(preview.uri, getSelectedModule(ctx, preview.uri), locked);
+  // Persist the flag so a reload restores the panel with the same lock state
+  const render = panelRenders.get(preview.panel);
+  if (render) postRender(preview.panel, render);
+}
+
 function getCfg(): Cfg {
   const cfg = vscode.workspace.getConfiguration('sv2svgPreview');
   return {
@@ -266,150 +960,1469 @@ function getCfg(): Cfg {
     autoOnOpen: cfg.get('autoOnOpen', false),
     renderTimeoutMs: cfg.get('renderTimeoutMs', 15000),
     excludePattern: cfg.get('excludePattern', '.*_tb\\.sv$'),
+    followCursor: cfg.get('followCursor', true),
+    toolVersion: cfg.get('toolVersion', '').trim(),
   };
 }
 
-async function renderToPanel(uri: vscode.Uri, panel: vscode.WebviewPanel, ctx: vscode.ExtensionContext, useTemp = false) {
-  panel.webview.html = loadingHtml();
-  try {
-    const svg = await runSv2Svg(uri, useTemp);
-    panel.webview.html = wrapSvg(svg);
-  } catch (err: any) {
-    const msg = err?.message ?? String(err);
-    panel.webview.html = errorHtml(msg);
+// Resolve include dirs, defines and filelist for a file, expanding ${workspaceFolder}/${fileDirname}
+// and making relative paths absolute against the workspace folder.
+function getProjectCfg(uri: vscode.Uri, useTemp: boolean): ProjectCfg {
+  const cfg = vscode.workspace.getConfiguration('sv2svgPreview', uri);
+  const folder = localFolder(uri);
+  const fileDir = sourceDir(uri);
+  const base = folder || fileDir;
+  const resolve = (p: string) => {
+    const expanded = p
+      .replace(/\$\{workspaceFolder\}/g, base)
+      .replace(/\$\{fileDirname\}/g, fileDir)
+      .replace(/^~(?=$|[\\/])/, os.homedir());
+    return path.resolve(base, expanded);
+  };
+
+  const includeDirs = cfg.get<string[]>('includeDirs', []).filter(Boolean).map(resolve);
+  // A copy (temp file or stdin) is read outside the original directory, so keep that on the
+  // include path for relative `include directives.
+  if (useTemp && uri.scheme === 'file' && !includeDirs.includes(fileDir)) includeDirs.unshift(fileDir);
+
+  const defines: Record<string, string> = {};
+  for (const [name, value] of Object.entries(cfg.get<Record<string, string | null>>('defines', {}))) {
+    defines[name] = value == null ? '' : String(value);
   }
-}
 
-function isSvFile(uri: vscode.Uri): boolean {
-  const ext = path.extname(uri.fsPath).toLowerCase();
-  return ext === '.sv' || ext === '.svh';
+  const filelist = cfg.get<string>('filelist', '').trim();
+  return { includeDirs, defines, filelist: filelist ? resolve(filelist) : undefined };
 }
 
-function isExcluded(uri: vscode.Uri): boolean {
-  const cfg = getCfg();
+// Render scheduler: a new request kills the in-flight process for the same panel, requests
+// queued behind it are coalesced so only the latest one runs, and only its result is applied.
+async function renderToPanel(uri: vscode.Uri, panel: vscode.WebviewPanel, ctx: vscode.ExtensionContext, useTemp = false, fresh = false): Promise<RenderOutcome> {
+  let slot = renderSlots.get(panel);
+  if (!slot) {
+    slot = { seq: 0 };
+    renderSlots.set(panel, slot);
+  }
+  const seq = ++slot.seq;
+  slot.controller?.abort();
+  if (slot.running) await slot.running;
+  // A newer request arrived while the previous render was unwinding
+  if (seq !== slot.seq || renderSlots.get(panel) !== slot) return 'cancelled';
+
+  const controller = new AbortController();
+  const run = renderOnce(uri, panel, ctx, useTemp, fresh, controller.signal);
+  slot.controller = controller;
+  slot.running = run.then(() => undefined, () => undefined);
   try {
-    const re = new RegExp(cfg.excludePattern);
-    return re.test(path.basename(uri.fsPath));
-  } catch {
-    return false;
+    return await run;
+  } finally {
+    if (slot.controller === controller) {
+      slot.controller = undefined;
+      slot.running = undefined;
+    }
   }
 }
 
-async function maybeAutoOpen(uri: vscode.Uri, ctx: vscode.ExtensionContext) {
-  const cfg = getCfg();
-  if (!cfg.autoOnOpen) return;
-  if (!isSvFile(uri)) return;
-  if (isExcluded(uri)) return;
-  await openPreview(uri, vscode.ViewColumn.Beside, ctx);
+function postRender(panel: vscode.WebviewPanel, render: PanelRender) {
+  const preview = previews.find(p => p.panel === panel);
+  panel.webview.postMessage({
+    type: 'render',
+    ...render,
+    uri: preview?.uri.toString(),
+    locked: preview?.locked,
+    presets: Object.keys(getPresets()),
+    preset: activePresetName(),
+  });
 }
 
-function makeTitle(uri: vscode.Uri): string {
-  const name = path.parse(uri.fsPath).name;
-  return `Preview ${name}`;
+function cancelRender(panel: vscode.WebviewPanel) {
+  renderSlots.get(panel)?.controller?.abort();
+  renderSlots.delete(panel);
 }
 
-function getIcon(ctx: vscode.ExtensionContext): vscode.Uri | { light: vscode.Uri, dark: vscode.Uri } {
-  const icon = vscode.Uri.joinPath(ctx.extensionUri, 'media', 'icon.svg');
-  return icon;
+async function renderOnce(uri: vscode.Uri, panel: vscode.WebviewPanel, ctx: vscode.ExtensionContext, useTemp: boolean, fresh: boolean, signal: AbortSignal): Promise<RenderOutcome> {
+  // The previous diagram stays visible; the webview only shows a progress indicator
+  panel.webview.postMessage({ type: 'rendering' });
+  try {
+    if (isClosedUntitled(uri)) throw new Error(`${path.posix.basename(uri.path)} was closed.`);
+    const doc = await vscode.workspace.openTextDocument(uri);
+    const modules = getSourceIndex(doc).modules.map(m => m.name);
+    const module = getSelectedModule(ctx, uri);
+    panel.title = makeTitle(uri, module, previews.find(p => p.panel === panel)?.locked);
+    const { options, origins } = await resolveRenderOptions(uri, await renderSourceText(uri, useTemp));
+    const svg = sanitizeSvg(await renderSvg(uri, useTemp, { module, signal, options, fresh }));
+    if (signal.aborted) return 'cancelled';
+    const cfg = getCfg();
+    const [unsupported, toolVersion] = await Promise.all([unsupportedOptions(cfg), getToolVersion(cfg)]);
+    const render: PanelRender = { svg, modules, module, options, origins, unsupported, toolVersion };
+    panelRenders.set(panel, render);
+    postRender(panel, render);
+    clearRenderDiagnostics(uri);
+    return 'rendered';
+  } catch (err: any) {
+    const outcome = renderFailureKind(err, signal);
+    if (outcome === 'cancelled') return outcome;
+    const msg = outcome === 'timedout'
+      ? `Rendering timed out after ${getCfg().renderTimeoutMs} ms (sv2svgPreview.renderTimeoutMs).`
+      : err?.message ?? String(err);
+    panel.webview.postMessage({ type: 'renderError', message: msg, toolchain: outcome === 'failed' && looksLikeToolchainError(err) });
+    if (outcome === 'failed') await publishRenderDiagnostics(uri, msg);
+    return outcome;
+  }
 }
 
-async function runSv2Svg(uri: vscode.Uri, useTemp: boolean): Promise<string> {
-  const cfg = getCfg();
-  const cwd = vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath || path.dirname(uri.fsPath);
-  const timeout = cfg.renderTimeoutMs;
-
-  let targetPath = uri.fsPath;
-  let tmpPath: string | undefined;
+function clearRenderDiagnostics(uri: vscode.Uri) {
+  diagnostics?.delete(uri);
+  for (const related of diagnosticFiles.get(uri.toString()) ?? []) diagnostics?.delete(related);
+  diagnosticFiles.delete(uri.toString());
+}
 
-  if (useTemp) {
-    // Write current unsaved contents to a temp file for preview
-    const doc = await vscode.workspace.openTextDocument(uri);
-    tmpPath = path.join(os.tmpdir(), `sv2svg-preview-${Date.now()}-${path.basename(uri.fsPath)}`);
-    await fs.promises.writeFile(tmpPath, doc.getText(), 'utf8');
-    targetPath = tmpPath;
+// Attach parsed tool errors to the rendered document and any other design file they name
+async function publishRenderDiagnostics(uri: vscode.Uri, output: string) {
+  if (!diagnostics) return;
+  clearRenderDiagnostics(uri);
+  const byFile = new Map<string, { target: vscode.Uri; items: vscode.Diagnostic[] }>();
+  for (const e of parseToolErrors(output)) {
+    const target = await resolveErrorFile(uri, e.file);
+    if (!target) continue;
+    const doc = await vscode.workspace.openTextDocument(target).then(d => d, () => undefined);
+    const diag = new vscode.Diagnostic(
+      errorRange(doc, e.line, e.column),
+      e.message,
+      e.severity === 'warning' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error,
+    );
+    diag.source = 'sv2svg';
+    const key = target.toString();
+    if (!byFile.has(key)) byFile.set(key, { target, items: [] });
+    byFile.get(key)!.items.push(diag);
   }
+  for (const { target, items } of byFile.values()) diagnostics.set(target, items);
+  diagnosticFiles.set(uri.toString(), [...byFile.values()].map(f => f.target).filter(t => t.toString() !== uri.toString()));
+}
 
-  // First attempt: stdout mode using configured args
-  const options = currentSv2SvgOptions || getDefaultSv2SvgOptions();
-  const args = buildArgs(cfg, targetPath, cfg.args, options);
-  const fullArgs = [...cfg.runnerArgs, ...args];
-  try {
-    const { stdout } = await pExecFile(cfg.runner, fullArgs, { cwd, timeout, maxBuffer: 10 * 1024 * 1024 });
-    const svg = extractSvg(stdout.toString());
-    if (!svg) throw new Error('No SVG found in stdout');
-    return svg;
-  } catch (e: any) {
-    // If stdout mode likely failed (e.g., requires file extension), retry to a temp .svg
-    const outTmp = path.join(os.tmpdir(), `sv2svg-out-${Date.now()}-${path.basename(uri.fsPath)}.svg`);
-    try {
-      const argsWithFile = rewriteOutputPath(fullArgs, outTmp);
-      const { stdout, stderr } = await pExecFile(cfg.runner, argsWithFile, { cwd, timeout, maxBuffer: 10 * 1024 * 1024 });
-      // Prefer reading file if created, else try stdout as svg
-      const exists = await fileExists(outTmp);
-      if (exists) {
-        const data = await fs.promises.readFile(outTmp, 'utf8');
-        return data;
-      }
-      const svg2 = extractSvg(stdout?.toString() || '');
-      if (svg2) return svg2;
-      const msg = e?.message || 'Unknown error';
-      const cmd = `${cfg.runner} ${shellEscape(argsWithFile)}`;
-      throw new Error(`${stderr?.toString() || msg}\n\nCommand: ${cmd}`);
-    } finally {
-      fs.promises.unlink(outTmp).catch(() => {});
-    }
-  } finally {
-    if (tmpPath) {
-      fs.promises.unlink(tmpPath).catch(() => {});
-    }
+async function resolveErrorFile(uri: vscode.Uri, file?: string): Promise<vscode.Uri | undefined> {
+  if (!file) return uri;
+  // The copy handed to the tool (a session temp file or stdin) stands in for the real document
+  if (file === '-' || file === '<stdin>' || isSessionTemp(file)) return uri;
+  const cwd = localFolder(uri) || sourceDir(uri);
+  for (const candidate of [path.resolve(cwd, file), path.resolve(sourceDir(uri), file)]) {
+    if (uri.scheme === 'file' && candidate === uri.fsPath) return uri;
+    if (await fileExists(candidate)) return vscode.Uri.file(candidate);
   }
+  return undefined;
 }
 
-function buildArgs(cfg: Cfg, filePath: string, extra: string[], options: Sv2SvgOptions): string[] {
-  const sequence: string[] = [];
-  sequence.push(cfg.command);
-
-  // Build sv2svg options
-  const sv2svgArgs: string[] = [];
-
-  // Input order
-  if (options.inputOrder !== 'alpha') {
-    sv2svgArgs.push('--input-order', options.inputOrder);
+function errorRange(doc: vscode.TextDocument | undefined, line: number, column?: number): vscode.Range {
+  const line0 = Math.max(0, line - 1);
+  if (!doc) return new vscode.Range(line0, Math.max(0, (column ?? 1) - 1), line0, Number.MAX_SAFE_INTEGER);
+  const textLine = doc.lineAt(Math.min(line0, doc.lineCount - 1));
+  if (column !== undefined) {
+    const pos = new vscode.Position(textLine.lineNumber, Math.min(Math.max(0, column - 1), textLine.range.end.character));
+    return doc.getWordRangeAtPosition(pos) ?? new vscode.Range(pos, textLine.range.end);
+  }
+  return new vscode.Range(textLine.lineNumber, textLine.firstNonWhitespaceCharacterIndex, textLine.lineNumber, textLine.range.end.character);
+}
+
+async function exportDiagram(panel: vscode.WebviewPanel, uri: vscode.Uri, format?: ExportFormat) {
+  const svg = panelRenders.get(panel)?.svg;
+  if (!svg) {
+    vscode.window.showInformationMessage('Nothing to export yet: the preview has not rendered.');
+    return;
+  }
+  const cfg = vscode.workspace.getConfiguration('sv2svgPreview.export');
+
+  if (!format) {
+    const pick = await vscode.window.showQuickPick([
+      { label: 'SVG', description: 'Vector, exactly as rendered', format: 'svg' as const },
+      { label: 'PNG', description: 'Raster image at a chosen scale', format: 'png' as const },
+      { label: 'PDF', description: 'Printable page with margins', format: 'pdf' as const },
+    ], { placeHolder: 'Export schematic as' });
+    if (!pick) return;
+    format = pick.format;
+  }
+
+  let background: 'keep' | 'white' = cfg.get('background', 'keep');
+  let scale = cfg.get('pngScale', 2);
+  let pageSize = cfg.get<PageSize>('pdfPageSize', 'fit');
+  if (format !== 'svg') {
+    const bg = await vscode.window.showQuickPick([
+      { label: 'Keep diagram background', value: 'keep' as const },
+      { label: 'White background', value: 'white' as const },
+    ].sort((a, b) => Number(b.value === background) - Number(a.value === background)), { placeHolder: 'Background' });
+    if (!bg) return;
+    background = bg.value;
+  }
+  if (format === 'png') {
+    const scales = [1, 2, 3, 4].map(s => ({ label: `${s}×`, description: `${s * 96} DPI`, value: s }));
+    const picked = await vscode.window.showQuickPick(
+      [...scales.sort((a, b) => Number(b.value === scale) - Number(a.value === scale)), { label: 'Custom DPI…', description: '', value: 0 }],
+      { placeHolder: 'PNG scale' });
+    if (!picked) return;
+    if (picked.value === 0) {
+      const dpi = await vscode.window.showInputBox({
+        prompt: 'PNG resolution in DPI (96 = 1×)',
+        value: String(scale * 96),
+        validateInput: v => Number(v) >= 24 && Number(v) <= 1200 ? undefined : 'Enter a number between 24 and 1200',
+      });
+      if (!dpi) return;
+      scale = Number(dpi) / 96;
+    } else {
+      scale = picked.value;
+    }
+  }
+  if (format === 'pdf') {
+    const sizes: { label: string; value: PageSize }[] = [
+      { label: 'Fit to diagram', value: 'fit' },
+      { label: 'A4', value: 'A4' },
+      { label: 'A3', value: 'A3' },
+      { label: 'Letter', value: 'Letter' },
+      { label: 'Legal', value: 'Legal' },
+    ];
+    const picked = await vscode.window.showQuickPick(
+      sizes.sort((a, b) => Number(b.value === pageSize) - Number(a.value === pageSize)), { placeHolder: 'PDF page size' });
+    if (!picked) return;
+    pageSize = picked.value;
+  }
+
+  const ext = format;
+  const saveUri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(sourceDir(uri), sourceFileName(uri).replace(/\.(sv|svh|v)$/i, '') + `.${ext}`)),
+    filters: { [`${ext.toUpperCase()} Files`]: [ext] },
+  });
+  if (!saveUri) return;
+
+  try {
+    let data: Buffer | string;
+    if (format === 'svg') {
+      data = svg;
+    } else if (format === 'png') {
+      data = (await rasterize(panel, svg, { scale, background, mime: 'image/png' })).data;
+    } else {
+      // Print resolution; JPEG has no alpha so the page white shows through transparent areas
+      const raster = await rasterize(panel, svg, { scale: cfg.get('pdfScale', 3), background, mime: 'image/jpeg' });
+      data = createImagePdf({
+        jpeg: raster.data,
+        width: raster.width,
+        height: raster.height,
+        scale: raster.scale,
+        pageSize,
+        marginMm: cfg.get('pdfMarginMm', 10),
+      });
+    }
+    await vscode.workspace.fs.writeFile(saveUri, typeof data === 'string' ? Buffer.from(data, 'utf8') : data);
+    vscode.window.showInformationMessage(`${ext.toUpperCase()} saved to ${path.basename(saveUri.fsPath)}`);
+  } catch (err: any) {
+    vscode.window.showErrorMessage(`Export failed: ${err?.message ?? err}`);
+  }
+}
+
+// Render every non-excluded .sv/.svh file under a folder (or the whole workspace) to SVG,
+// mirroring the source layout below the configured output directory.
+async function exportAllSchematics(ctx: vscode.ExtensionContext, folder?: vscode.Uri) {
+  if (!vscode.workspace.isTrusted) {
+    vscode.window.showWarningMessage('Workspace is not trusted. sv2svg will not be executed.');
+    return;
+  }
+  const roots = folder ? [folder] : (vscode.workspace.workspaceFolders ?? []).map(f => f.uri);
+  if (roots.length === 0) {
+    vscode.window.showInformationMessage('Open a folder to export schematics.');
+    return;
+  }
+  const cfg = vscode.workspace.getConfiguration('sv2svgPreview.exportAll');
+  const concurrency = Math.max(1, cfg.get('concurrency', 4));
+  const multiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+
+  const outputFor = (uri: vscode.Uri): string => {
+    const wsFolder = vscode.workspace.getWorkspaceFolder(uri);
+    const base = wsFolder?.uri.fsPath ?? path.dirname(uri.fsPath);
+    const outDir = vscode.workspace.getConfiguration('sv2svgPreview.exportAll', uri).get('outputDir', 'schematics');
+    let outRoot = path.resolve(base, outDir);
+    // Keep roots apart when an absolute output directory is shared by several workspace folders
+    if (path.isAbsolute(outDir) && multiRoot && wsFolder) outRoot = path.join(outRoot, wsFolder.name);
+    const rel = path.relative(base, uri.fsPath).replace(/\.(sv|svh)$/i, '.svg');
+    return path.join(outRoot, rel);
+  };
+
+  const files: vscode.Uri[] = [];
+  for (const root of roots) {
+    const found = await vscode.workspace.findFiles(new vscode.RelativePattern(root, '**/*.{sv,svh}'), '**/node_modules/**');
+    files.push(...found.filter(f => !isExcluded(f)));
+  }
+  files.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+  if (files.length === 0) {
+    vscode.window.showInformationMessage('No SystemVerilog files to export.');
+    return;
+  }
+
+  const failures: { file: string; error: string }[] = [];
+  let written = 0;
+  const cancelled = await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'Exporting schematics',
+    cancellable: true,
+  }, async (progress, token) => {
+    const controller = new AbortController();
+    token.onCancellationRequested(() => controller.abort());
+    let next = 0;
+    let done = 0;
+    const worker = async () => {
+      while (next < files.length && !token.isCancellationRequested) {
+        const file = files[next++];
+        try {
+          const svg = await renderSvg(file, false, { module: getSelectedModule(ctx, file), signal: controller.signal });
+          const out = outputFor(file);
+          await fs.promises.mkdir(path.dirname(out), { recursive: true });
+          await fs.promises.writeFile(out, svg, 'utf8');
+          written++;
+        } catch (err: any) {
+          if (renderFailureKind(err, controller.signal) !== 'cancelled') {
+            failures.push({ file: vscode.workspace.asRelativePath(file), error: err?.message ?? String(err) });
+          }
+        }
+        done++;
+        progress.report({ increment: 100 / files.length, message: `${done}/${files.length} ${path.basename(file.fsPath)}` });
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, worker));
+    return token.isCancellationRequested;
+  });
+
+  log?.info(`Export all: ${written} written, ${failures.length} failed${cancelled ? ', cancelled' : ''} (of ${files.length})`);
+  for (const f of failures) log?.error(`Export failed for ${f.file}:\n${f.error}`);
+
+  const summary = `Exported ${written} of ${files.length} schematics${cancelled ? ' (cancelled)' : ''}.`;
+  if (failures.length === 0) {
+    vscode.window.showInformationMessage(summary);
+    return;
+  }
+  const action = await vscode.window.showWarningMessage(`${summary} ${failures.length} failed.`, 'Show Log');
+  if (action === 'Show Log') log?.show(true);
+}
+
+function extendMarkdownIt(md: MarkdownIt): MarkdownIt {
+  const defaultFence: MarkdownRenderRule = md.renderer.rules.fence
+    ?? ((tokens, idx, options, _env, self) => self.renderToken(tokens, idx, options));
+  md.renderer.rules.fence = (tokens, idx, options, env, self) => {
+    const token = tokens[idx];
+    const fence = parseFenceInfo(String(token.info ?? ''));
+    const render = fence && markdownSchematic(String(token.content ?? ''), fence);
+    // Pending or failed renders show the code instead
+    if (!render?.svg) return defaultFence(tokens, idx, options, env, self);
+    const data = Buffer.from(render.svg, 'utf8').toString('base64');
+    return `<div class="sv2svg-schematic"><img alt="SystemVerilog schematic" src="data:image/svg+xml;base64,${data}"></div>\n`;
+  };
+  return md;
+}
+
+// "systemverilog {schematic style=blueprint}" -> overrides; undefined when the block is not rendered
+function parseFenceInfo(info: string): OptionOverrides | undefined {
+  const m = /^\s*([\w-]+)\s*(?:\{([^}]*)\})?/.exec(info);
+  if (!m || !MARKDOWN_FENCE_LANGS.has(m[1].toLowerCase())) return undefined;
+  const attrs = (m[2] ?? '').trim();
+  const optIn = /^schematic\b/.test(attrs);
+  const mode = vscode.workspace.getConfiguration('sv2svgPreview.markdown').get<'optIn' | 'all' | 'off'>('fences', 'optIn');
+  if (mode === 'off' || (mode === 'optIn' && !optIn)) return undefined;
+  return parseOptionOverrides(optIn ? attrs.replace(/^schematic\b/, '') : attrs);
+}
+
+// Synchronous lookup for the markdown-it renderer; misses queue a background render and
+// refresh the preview once it is available.
+function markdownSchematic(content: string, fence: OptionOverrides): MarkdownRender | undefined {
+  const cfg = getCfg();
+  const options = { ...(currentSv2SvgOptions || getDefaultSv2SvgOptions()), ...fence.options };
+  const key = cacheKey({
+    content,
+    options,
+    module: fence.module,
+    runner: cfg.runner,
+    command: toolCommand(cfg),
+    runnerArgs: cfg.runnerArgs,
+    args: cfg.args,
+    argsBeforeFile: cfg.argsBeforeFile,
+  });
+  const hit = markdownRenders.get(key);
+  if (hit) {
+    markdownRenders.delete(key);
+    markdownRenders.set(key, hit);
+    return hit;
+  }
+  if (!vscode.workspace.isTrusted) return undefined;
+
+  const entry: MarkdownRender = {};
+  markdownRenders.set(key, entry);
+  while (markdownRenders.size > MARKDOWN_CACHE_ENTRIES) {
+    markdownRenders.delete(markdownRenders.keys().next().value as string);
+  }
+  markdownQueue = markdownQueue.then(async () => {
+    let tmp: string | undefined;
+    try {
+      tmp = sessionTempFile(`fence-${key.slice(0, 8)}.sv`);
+      await fs.promises.writeFile(tmp, content, 'utf8');
+      // A fence is self-contained: project paths would resolve against the temp directory
+      entry.svg = await runSv2Svg(vscode.Uri.file(tmp), false, { options, module: fence.module, project: { includeDirs: [], defines: {} } });
+    } catch (err: any) {
+      entry.failed = true;
+      log?.warn(`Markdown schematic render failed: ${err?.message ?? err}`);
+    } finally {
+      if (tmp) removeSessionTemp(tmp);
+    }
+    if (markdownRefreshTimer) clearTimeout(markdownRefreshTimer);
+    markdownRefreshTimer = setTimeout(() => {
+      markdownRefreshTimer = undefined;
+      vscode.commands.executeCommand('markdown.preview.refresh');
+    }, 200);
+  });
+  return entry;
+}
+
+// Render the working copy and a git revision of a file and show both in a diff panel
+async function showSchematicDiff(uri: vscode.Uri, ctx: vscode.ExtensionContext, ref?: string) {
+  if (!vscode.workspace.isTrusted) {
+    vscode.window.showWarningMessage('Workspace is not trusted. sv2svg will not be executed.');
+    return;
+  }
+  let location: GitLocation;
+  try {
+    location = await gitLocation(uri);
+  } catch (err: any) {
+    vscode.window.showErrorMessage(`${path.basename(uri.fsPath)} is not in a git repository: ${gitErrorMessage(err)}`);
+    return;
+  }
+  ref = ref ?? await pickGitRef(location);
+  if (!ref) return;
+
+  const name = path.basename(uri.fsPath);
+  const shortRef = /^[0-9a-f]{40}$/i.test(ref) ? ref.slice(0, 7) : ref;
+  const panel = vscode.window.createWebviewPanel(
+    'sv2svgDiff',
+    `Schematic diff ${path.parse(uri.fsPath).name} (${shortRef} ↔ working tree)`,
+    vscode.ViewColumn.Beside,
+    { enableScripts: true, retainContextWhenHidden: true },
+  );
+  try { panel.iconPath = getIcon(ctx); } catch {}
+
+  // Hold the result until the webview script is listening
+  let ready = false;
+  let result: object | undefined;
+  const post = () => {
+    if (ready && result) panel.webview.postMessage(result);
+  };
+  panel.webview.onDidReceiveMessage((message) => {
+    if (message?.type === 'ready') {
+      ready = true;
+      post();
+    }
+  });
+  panel.webview.html = diffHtml(panel.webview);
+
+  try {
+    const before = await gitShow(location, ref);
+    const after = (await vscode.workspace.openTextDocument(uri)).getText();
+    // Keep the selected module only for versions that declare it
+    const selected = getSelectedModule(ctx, uri);
+    const moduleIn = (text: string) => selected && indexSource(text).modules.some(m => m.name === selected) ? selected : undefined;
+    const beforeSvg = await runSv2Svg(uri, true, { text: before, module: moduleIn(before) });
+    const afterSvg = await runSv2Svg(uri, true, { text: after, module: moduleIn(after) });
+    const diff = diffSymbols(before, after, moduleIn(before) && moduleIn(after));
+    log?.info(`Schematic diff ${name} ${ref}: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed`);
+    result = {
+      type: 'diff',
+      before: { label: `${name} @ ${shortRef}`, svg: sanitizeSvg(beforeSvg) },
+      after: { label: `${name} (working tree)`, svg: sanitizeSvg(afterSvg) },
+      ...diff,
+    };
+  } catch (err: any) {
+    result = { type: 'diffError', message: gitErrorMessage(err) };
+  }
+  post();
+}
+
+async function pickGitRef(location: GitLocation): Promise<string | undefined> {
+  type RefItem = vscode.QuickPickItem & { ref?: string };
+  const items: RefItem[] = [{ label: 'HEAD', description: 'Last commit', ref: 'HEAD' }];
+  try {
+    const out = await runGit(location.root, ['log', '-n', '20', '--format=%H%x09%h%x09%ar%x09%s', '--', location.path]);
+    for (const line of out.split('\n').filter(Boolean)) {
+      const [hash, short, when, subject] = line.split('\t');
+      items.push({ label: short, description: subject, detail: when, ref: hash });
+    }
+  } catch (err: any) {
+    log?.warn(`git log failed: ${gitErrorMessage(err)}`);
+  }
+  items.push({ label: 'Enter a branch, tag or commit…', ref: undefined });
+  const pick = await vscode.window.showQuickPick(items, { placeHolder: 'Compare the working copy with', matchOnDescription: true });
+  if (!pick) return undefined;
+  if (pick.ref) return pick.ref;
+  const typed = await vscode.window.showInputBox({ prompt: 'Git ref to compare with', placeHolder: 'main, v1.2, HEAD~3, a1b2c3d' });
+  return typed?.trim() || undefined;
+}
+
+async function gitLocation(uri: vscode.Uri): Promise<GitLocation> {
+  const root = (await runGit(path.dirname(uri.fsPath), ['rev-parse', '--show-toplevel'])).trim();
+  return { root, path: path.relative(root, uri.fsPath).split(path.sep).join('/') };
+}
+
+async function gitShow(location: GitLocation, ref: string): Promise<string> {
+  // Resolve a typed ref to a commit first: passed to git show as is, "--output=..." is an option
+  const hash = (await runGit(location.root, ['rev-parse', '--verify', '--end-of-options', `${ref}^{commit}`])).trim();
+  if (!/^[0-9a-f]{40,64}$/.test(hash)) throw new Error(`Not a commit: ${ref}`);
+  return runGit(location.root, ['show', `${hash}:${location.path}`]);
+}
+
+async function runGit(cwd: string, args: string[]): Promise<string> {
+  // Honour the built-in git extension's executable setting
+  const configured = vscode.workspace.getConfiguration('git').get<string | string[]>('path');
+  const git = (Array.isArray(configured) ? configured[0] : configured) || 'git';
+  log?.debug(`[git] ${shellEscape([git, ...args])} (cwd: ${cwd})`);
+  const { stdout } = await pExecFile(git, args, { cwd, maxBuffer: 10 * 1024 * 1024 });
+  return stdout;
+}
+
+function gitErrorMessage(err: any): string {
+  return err?.stderr?.toString().trim() || err?.message || String(err);
+}
+
+// The webview has the canvas, so rasterization is a round trip through postMessage
+function rasterize(
+  panel: vscode.WebviewPanel,
+  svg: string,
+  opts: { scale: number; background: 'keep' | 'white'; mime: 'image/png' | 'image/jpeg' },
+): Promise<RasterResult> {
+  const id = nextRasterId++;
+  return new Promise<RasterResult>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      rasterRequests.delete(id);
+      reject(new Error('Timed out waiting for the preview to rasterize the diagram.'));
+    }, 30000);
+    rasterRequests.set(id, (result) => {
+      clearTimeout(timer);
+      if (result instanceof Error) reject(result); else resolve(result);
+    });
+    panel.webview.postMessage({ type: 'rasterize', id, svg, ...opts });
+  });
+}
+
+function getCacheDir(ctx: vscode.ExtensionContext): string {
+  return path.join(ctx.globalStorageUri.fsPath, 'render-cache');
+}
+
+function createCacheFromConfig(ctx: vscode.ExtensionContext): RenderCache | undefined {
+  const cfg = vscode.workspace.getConfiguration('sv2svgPreview.cache');
+  if (!cfg.get('enabled', true)) return undefined;
+  return createRenderCache({
+    maxEntries: Math.max(1, cfg.get('maxEntries', 100)),
+    maxBytes: Math.max(1, cfg.get('maxSizeMB', 50)) * 1024 * 1024,
+    dir: cfg.get('persist', false) ? getCacheDir(ctx) : undefined,
+  });
+}
+
+// Cached front of runSv2Svg: the key covers everything that can change the output
+async function renderSvg(uri: vscode.Uri, useTemp: boolean, params: RenderParams = {}): Promise<string> {
+  const cache = renderCache;
+  const key = cache ? await renderCacheKey(uri, useTemp, params) : undefined;
+  if (cache && key && !params.fresh) {
+    const hit = await cache.get(key);
+    if (hit) {
+      log?.info(`Cache hit for ${uri.fsPath} (${key.slice(0, 12)})`);
+      return hit;
+    }
+  }
+  const svg = await runSv2Svg(uri, useTemp, params);
+  if (cache && key) await cache.set(key, svg);
+  return svg;
+}
+
+async function renderCacheKey(uri: vscode.Uri, useTemp: boolean, params: RenderParams = {}): Promise<string> {
+  const cfg = getCfg();
+  const text = await renderSourceText(uri, useTemp, params);
+  const project = params.project ?? getProjectCfg(uri, rendersCopy(uri, useTemp));
+  return cacheKey({
+    text,
+    options: params.options ?? (await resolveRenderOptions(uri, text)).options,
+    runner: cfg.runner,
+    command: toolCommand(cfg),
+    runnerArgs: cfg.runnerArgs,
+    args: cfg.args,
+    argsBeforeFile: cfg.argsBeforeFile,
+    module: params.module,
+    project,
+    dependencies: await projectDependencies(uri, text, project),
+    toolVersion: await getToolVersion(cfg),
+  });
+}
+
+// Modification times of the other files a render reads: included files, found next to the
+// including file or on the include path, the filelist and its members, and what they include
+async function projectDependencies(uri: vscode.Uri, text: string, project: ProjectCfg): Promise<[string, number][]> {
+  const mtimes = new Map<string, number>();
+  const includeDirs = [...project.includeDirs];
+  const pending: { file: string; kind: 'source' | 'filelist' }[] = [];
+
+  const scan = async (file: string, kind: 'source' | 'filelist'): Promise<DependencyScan | undefined> => {
+    const stat = await fs.promises.stat(file).catch(() => undefined);
+    if (!stat?.isFile()) return undefined;
+    mtimes.set(file, stat.mtimeMs);
+    let entry = dependencyScans.get(file);
+    if (!entry || entry.mtimeMs !== stat.mtimeMs) {
+      const content = await fs.promises.readFile(file, 'utf8').catch(() => '');
+      entry = { mtimeMs: stat.mtimeMs, scan: kind === 'source' ? sourceDependencies(content) : filelistDependencies(content, path.dirname(file)) };
+      dependencyScans.set(file, entry);
+    }
+    return entry.scan;
+  };
+  const resolveInclude = async (name: string, from: string): Promise<string | undefined> => {
+    if (path.isAbsolute(name)) return name;
+    for (const dir of [from, ...includeDirs]) {
+      const candidate = path.resolve(dir, name);
+      if (await fileExists(candidate)) return candidate;
+    }
+    return undefined;
+  };
+
+  // The filelist's +incdir+ directories apply to every file, so read the filelists first
+  const sources: { includes: string[]; from: string }[] = [{ includes: sourceDependencies(text).includes, from: sourceDir(uri) }];
+  if (project.filelist) pending.push({ file: project.filelist, kind: 'filelist' });
+  while (pending.length) {
+    const { file, kind } = pending.shift()!;
+    if (mtimes.has(file)) continue;
+    const found = await scan(file, kind);
+    if (!found) continue;
+    includeDirs.push(...found.includeDirs);
+    pending.push(...found.filelists.map(f => ({ file: f, kind: 'filelist' as const })));
+    if (kind === 'source') sources.push({ includes: found.includes, from: path.dirname(file) });
+    pending.push(...found.files.map(f => ({ file: f, kind: 'source' as const })));
+  }
+  while (sources.length) {
+    const { includes, from } = sources.shift()!;
+    for (const name of includes) {
+      const file = await resolveInclude(name, from);
+      if (!file || mtimes.has(file)) continue;
+      const found = await scan(file, 'source');
+      if (found) sources.push({ includes: found.includes, from: path.dirname(file) });
+    }
+  }
+  return [...mtimes].sort(([a], [b]) => a.localeCompare(b));
+}
+
+function sourceDependencies(text: string): DependencyScan {
+  return { includes: includeNames(text), files: [], filelists: [], includeDirs: [] };
+}
+
+// Members, nested filelists (-f/-F) and +incdir+ directories of a filelist, relative to its folder
+function filelistDependencies(text: string, dir: string): DependencyScan {
+  const scan: DependencyScan = { includes: [], files: [], filelists: [], includeDirs: [] };
+  const words = text.replace(/\/\/.*|#.*/g, '').split(/\s+/).filter(Boolean);
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    if (word.startsWith('+incdir+')) {
+      scan.includeDirs.push(...word.slice(8).split('+').filter(Boolean).map(d => path.resolve(dir, d)));
+    } else if (word === '-f' || word === '-F') {
+      if (words[i + 1]) scan.filelists.push(path.resolve(dir, words[++i]));
+    } else if (word === '-v') {
+      if (words[i + 1]) scan.files.push(path.resolve(dir, words[++i]));
+    } else if (word === '-y') {
+      i++;
+    } else if (!word.startsWith('-') && !word.startsWith('+')) {
+      scan.files.push(path.resolve(dir, word));
+    }
+  }
+  return scan;
+}
+
+// The source the tool will see: the given text or the buffer (both through a temp copy), or the file on disk
+async function renderSourceText(uri: vscode.Uri, useTemp: boolean, params: RenderParams = {}): Promise<string> {
+  if (useTemp && params.text !== undefined) return params.text;
+  // Without a copy the tool reads what is on disk, not the (possibly dirty) buffer. Reading it
+  // directly keeps batch exports from opening every file as a document.
+  if (!rendersCopy(uri, useTemp)) return fs.promises.readFile(uri.fsPath, 'utf8');
+  const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+  return (open ?? await vscode.workspace.openTextDocument(uri)).getText();
+}
+
+// Effective render options for a file. Precedence, lowest first: built-in defaults, user settings,
+// workspace settings, .sv2svg.json files from the workspace folder down to the file's folder (in each,
+// "options" and then the matching "overrides" in order), and `// sv2svg:` comments in the file header.
+// Callers that pass RenderParams.options (Markdown fences) bypass this.
+async function resolveRenderOptions(uri: vscode.Uri, text: string): Promise<ResolvedOptions> {
+  const options = { ...(currentSv2SvgOptions || getDefaultSv2SvgOptions()) };
+  const origins = {} as Record<keyof Sv2SvgOptions, OptionOrigin>;
+  const cfg = vscode.workspace.getConfiguration('sv2svgPreview.renderOptions');
+  for (const key of Object.keys(options) as (keyof Sv2SvgOptions)[]) {
+    const inspected = cfg.inspect(key);
+    origins[key] = inspected?.workspaceValue !== undefined ? { kind: 'workspace', label: 'Workspace settings' }
+      : inspected?.globalValue !== undefined ? { kind: 'user', label: 'User settings' }
+      : { kind: 'default', label: 'Default' };
+  }
+
+  const apply = (overrides: string | undefined, origin: OptionOrigin) => {
+    if (!overrides) return;
+    for (const [key, value] of Object.entries(parseOptionOverrides(overrides).options)) {
+      (options as Record<string, unknown>)[key] = value;
+      origins[key as keyof Sv2SvgOptions] = origin;
+    }
+  };
+  for (const { dir, config } of await folderConfigsFor(uri)) {
+    const origin: OptionOrigin = { kind: 'configFile', label: vscode.workspace.asRelativePath(path.join(dir, FOLDER_CONFIG_FILE)) };
+    const rel = path.relative(dir, uri.fsPath).split(path.sep).join('/');
+    apply(config.options, origin);
+    for (const rule of config.overrides) {
+      if (rule.files.some(glob => matchesGlob(glob, rel))) apply(rule.options, origin);
+    }
+  }
+  apply(parseMagicComments(text), { kind: 'comment', label: '// sv2svg: comment' });
+  return { options, origins };
+}
+
+function isFileOrigin(origin: OptionOrigin | undefined): boolean {
+  return origin?.kind === 'configFile' || origin?.kind === 'comment';
+}
+
+// .sv2svg.json files that apply to a file, outermost folder first
+async function folderConfigsFor(uri: vscode.Uri): Promise<{ dir: string; config: FolderConfig }[]> {
+  if (uri.scheme !== 'file') return [];
+  const root = vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath;
+  const dirs: string[] = [];
+  for (let dir = path.dirname(uri.fsPath); ; dir = path.dirname(dir)) {
+    dirs.unshift(dir);
+    // Outside a workspace folder only the file's own folder is considered
+    if (!root || dir === root || path.dirname(dir) === dir) break;
+  }
+
+  const found: { dir: string; config: FolderConfig }[] = [];
+  for (const dir of dirs) {
+    const file = path.join(dir, FOLDER_CONFIG_FILE);
+    const stat = await fs.promises.stat(file).catch(() => undefined);
+    if (!stat) {
+      folderConfigs.delete(file);
+      continue;
+    }
+    let entry = folderConfigs.get(file);
+    if (!entry || entry.mtimeMs !== stat.mtimeMs) {
+      entry = { mtimeMs: stat.mtimeMs };
+      try {
+        entry.config = parseFolderConfig(await fs.promises.readFile(file, 'utf8'));
+      } catch (err: any) {
+        log?.warn(`Ignoring ${file}: ${err?.message ?? err}`);
+      }
+      folderConfigs.set(file, entry);
+    }
+    if (entry.config) found.push({ dir, config: entry.config });
+  }
+  return found;
+}
+
+// `<command> --version`, queried once per runner configuration
+function getToolVersion(cfg: Cfg): Promise<string> {
+  const key = toolKey(cfg);
+  let version = toolVersions.get(key);
+  if (!version) {
+    // A runner the user has not allowed is never launched, not even for --version
+    version = runnerAllowed(cfg).then(allowed => !allowed ? 'unknown'
+      : pExecFile(cfg.runner, toolArgs(cfg, '--version'), { timeout: cfg.renderTimeoutMs })
+        .then(({ stdout, stderr }) => (stdout.toString() || stderr.toString()).trim() || 'unknown', () => 'unknown'));
+    toolVersions.set(key, version);
+  }
+  return version;
+}
+
+// `<command> --help`, queried once per runner configuration. Undefined when the help text cannot
+// be read; every flag is passed through then and the tool reports what it rejects.
+function getToolHelp(cfg: Cfg): Promise<ToolHelp | undefined> {
+  const key = toolKey(cfg);
+  let help = toolHelp.get(key);
+  if (!help) {
+    help = runnerAllowed(cfg).then(allowed => !allowed ? undefined
+      : pExecFile(cfg.runner, toolArgs(cfg, '--help'), { timeout: cfg.renderTimeoutMs, maxBuffer: 1024 * 1024 })
+        .then(({ stdout, stderr }) => parseToolHelp(`${stdout}\n${stderr}`), (err: any) => {
+          log?.warn(`Could not read ${runnerCommandLine({ ...runnerOf(cfg), command: toolCommand(cfg) })} --help: ${err?.message?.split('\n')[0] ?? err}`);
+          return undefined;
+        }));
+    toolHelp.set(key, help);
+  }
+  return help;
+}
+
+function toolKey(cfg: Cfg): string {
+  return JSON.stringify([cfg.runner, cfg.runnerArgs, toolCommand(cfg)]);
+}
+
+function toolArgs(cfg: Cfg, ...args: string[]): string[] {
+  const command = toolCommand(cfg);
+  return [...cfg.runnerArgs, ...(command ? [command] : []), ...args];
+}
+
+// The command with sv2svgPreview.toolVersion applied: uvx accepts a requirement such as "sv2svg==1.4.0"
+function toolCommand(cfg: Cfg): string {
+  if (!cfg.toolVersion || !cfg.command || !/^uvx(?:\.exe)?$/i.test(path.basename(cfg.runner))) return cfg.command;
+  const spec = cfg.toolVersion.startsWith(cfg.command) ? cfg.toolVersion.slice(cfg.command.length).trim() : cfg.toolVersion;
+  if (!VERSION_SPEC.test(spec)) {
+    log?.warn(`Ignoring sv2svgPreview.toolVersion "${cfg.toolVersion}": expected a version such as "1.4.0" or ">=1.3,<2"`);
+    return cfg.command;
+  }
+  return `${cfg.command}${/^\d/.test(spec) ? '==' : ''}${spec}`;
+}
+
+// Options the installed tool has no flag for; empty when its help text is unknown
+async function unsupportedOptions(cfg: Cfg): Promise<(keyof Sv2SvgOptions)[]> {
+  const help = await getToolHelp(cfg);
+  if (!help) return [];
+  return (Object.keys(OPTION_FLAGS) as (keyof Sv2SvgOptions)[]).filter(key => !help.flags.has(OPTION_FLAGS[key]));
+}
+
+function runnerOf(cfg: Cfg): RunnerConfig {
+  return { runner: cfg.runner, runnerArgs: cfg.runnerArgs, command: cfg.command };
+}
+
+function runnerCommandLine(runner: RunnerConfig): string {
+  return shellEscape([runner.runner, ...runner.runnerArgs, ...(runner.command ? [runner.command] : [])]);
+}
+
+// Workspace (or folder) settings that change the runner away from the user's own configuration
+function workspaceDefinesRunner(): boolean {
+  const cfg = vscode.workspace.getConfiguration('sv2svgPreview');
+  return (['runner', 'runnerArgs', 'command'] as const).some((key) => {
+    const inspected = cfg.inspect(key);
+    const workspace = inspected?.workspaceFolderValue ?? inspected?.workspaceValue;
+    if (workspace === undefined) return false;
+    return JSON.stringify(workspace) !== JSON.stringify(inspected?.globalValue ?? inspected?.defaultValue);
+  });
+}
+
+function getRunnerDecisions(): Record<string, RunnerDecision> {
+  return globalState?.get<Record<string, RunnerDecision>>(RUNNER_DECISIONS_KEY, {}) ?? {};
+}
+
+// Workspace settings can point execFile at any program, so a runner that differs from the user's
+// own configuration needs a one-time confirmation. Answers are remembered per configuration hash.
+function runnerAllowed(cfg: Cfg): Promise<boolean> {
+  if (!workspaceDefinesRunner()) return Promise.resolve(true);
+  const runner = runnerOf(cfg);
+  const hash = cacheKey(runner);
+  const decided = getRunnerDecisions()[hash];
+  if (decided) return Promise.resolve(decided.allowed);
+  // Concurrent renders share one prompt
+  let check = runnerChecks.get(hash);
+  if (!check) {
+    check = confirmRunner(runner, hash);
+    runnerChecks.set(hash, check);
+  }
+  return check;
+}
+
+async function confirmRunner(runner: RunnerConfig, hash: string): Promise<boolean> {
+  const allow = 'Allow';
+  const deny = "Don't Allow";
+  const choice = await vscode.window.showWarningMessage(
+    `This workspace configures sv2svg to run "${runnerCommandLine(runner)}". Allow it to run on this machine?`,
+    {
+      modal: true,
+      detail: 'The runner differs from your user settings. Workspace settings can point it at any program, '
+        + 'so only allow it if you trust this repository. Your answer is remembered for this exact configuration '
+        + 'and can be changed with "sv2svg: Manage Trusted Runners".',
+    },
+    allow, deny,
+  );
+  if (choice === undefined) return false;
+  const decisions = getRunnerDecisions();
+  decisions[hash] = {
+    ...runner,
+    allowed: choice === allow,
+    workspace: vscode.workspace.name,
+    decidedAt: new Date().toISOString(),
+  };
+  await globalState?.update(RUNNER_DECISIONS_KEY, decisions);
+  log?.info(`Runner "${runnerCommandLine(runner)}" ${choice === allow ? 'allowed' : 'not allowed'} for workspace ${vscode.workspace.name ?? '(none)'}`);
+  return choice === allow;
+}
+
+async function ensureRunnerAllowed(cfg: Cfg): Promise<void> {
+  if (await runnerAllowed(cfg)) return;
+  throw new Error(`The runner configured by this workspace ("${runnerCommandLine(runnerOf(cfg))}") is not allowed to run. `
+    + 'Use "sv2svg: Manage Trusted Runners" to change this.');
+}
+
+// Returns true when a decision changed
+async function manageRunnerDecisions(): Promise<boolean> {
+  const decisions = getRunnerDecisions();
+  const entries = Object.entries(decisions);
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage('No workspace runners have been allowed or denied yet.');
+    return false;
+  }
+  const pick = await vscode.window.showQuickPick(entries.map(([hash, d]) => ({
+    label: `${d.allowed ? '$(check)' : '$(circle-slash)'} ${runnerCommandLine(d)}`,
+    description: d.workspace,
+    detail: `${d.allowed ? 'Allowed' : 'Not allowed'} on ${new Date(d.decidedAt).toLocaleString()}`,
+    hash,
+  })), { placeHolder: 'Select a runner to change its decision' });
+  if (!pick) return false;
+
+  const current = decisions[pick.hash];
+  const action = await vscode.window.showQuickPick([
+    current.allowed
+      ? { label: 'Revoke', description: 'Do not run this runner', value: 'deny' as const }
+      : { label: 'Allow', description: 'Run this runner without asking', value: 'allow' as const },
+    { label: 'Forget', description: 'Ask again the next time it is used', value: 'forget' as const },
+  ], { placeHolder: runnerCommandLine(current) });
+  if (!action) return false;
+
+  if (action.value === 'forget') {
+    delete decisions[pick.hash];
+  } else {
+    decisions[pick.hash] = { ...current, allowed: action.value === 'allow', decidedAt: new Date().toISOString() };
+  }
+  await globalState?.update(RUNNER_DECISIONS_KEY, decisions);
+  runnerChecks.clear();
+  toolVersions.clear();
+  toolHelp.clear();
+  return true;
+}
+
+// Toolchain report panel; one at a time, re-run when shown again
+async function showToolchainCheck(ctx: vscode.ExtensionContext) {
+  if (!vscode.workspace.isTrusted) {
+    vscode.window.showWarningMessage('Workspace is not trusted. sv2svg will not be executed.');
+    return;
+  }
+  if (toolchainPanel) {
+    toolchainPanel.reveal();
+  } else {
+    const panel = vscode.window.createWebviewPanel('sv2svgToolchain', 'sv2svg Toolchain', vscode.ViewColumn.Active, { enableScripts: true });
+    try { panel.iconPath = getIcon(ctx); } catch {}
+    toolchainPanel = panel;
+    panel.onDidDispose(() => {
+      if (toolchainPanel === panel) toolchainPanel = undefined;
+    });
+    panel.webview.onDidReceiveMessage(async (raw: unknown) => {
+      const message = parseToolchainMessage(raw);
+      if (!message) {
+        log?.warn(`Ignoring unexpected message from the toolchain panel: ${JSON.stringify(raw)?.slice(0, 200)}`);
+        return;
+      }
+      if (message.type === 'recheck') {
+        await runToolchainCheck(panel);
+      } else {
+        // Only fixes the host offered; the indices come from the report it sent
+        const fix = toolchainChecks[message.check]?.fixes[message.fix];
+        if (!fix) return;
+        if (await applyToolchainFix(fix)) {
+          await runToolchainCheck(panel);
+          await Promise.all(previews.map(p => renderToPanel(p.uri, p.panel, ctx)));
+        } else {
+          postToolchainReport(panel);
+        }
+      }
+    });
+    panel.webview.html = toolchainHtml(panel.webview);
+  }
+  await runToolchainCheck(toolchainPanel);
+}
+
+function parseToolchainMessage(raw: unknown): ToolchainMessage | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const m = raw as Record<string, unknown>;
+  const isIndex = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0;
+  if (m.type === 'recheck') return { type: 'recheck' };
+  if (m.type === 'fix' && isIndex(m.check) && isIndex(m.fix)) return { type: 'fix', check: m.check, fix: m.fix };
+  return undefined;
+}
+
+async function runToolchainCheck(panel: vscode.WebviewPanel) {
+  const cfg = getCfg();
+  panel.webview.postMessage({ type: 'checking', commandLine: runnerCommandLine(runnerOf(cfg)) });
+  const checks = await checkToolchain({
+    ...runnerOf(cfg),
+    command: toolCommand(cfg),
+    // A first uvx run downloads sv2svg, which can take longer than a render
+    timeoutMs: Math.max(cfg.renderTimeoutMs, 60000),
+    folders: (vscode.workspace.workspaceFolders ?? []).filter(f => f.uri.scheme === 'file').map(f => f.uri.fsPath),
+    allowRun: await runnerAllowed(cfg),
+  });
+  toolchainChecks = checks;
+  for (const check of checks) log?.info(`[toolchain] ${check.status}: ${check.title}: ${check.detail.split('\n')[0]}`);
+  postToolchainReport(panel);
+}
+
+function postToolchainReport(panel: vscode.WebviewPanel) {
+  panel.webview.postMessage({
+    type: 'report',
+    checks: toolchainChecks.map(c => ({ title: c.title, status: c.status, detail: c.detail, fixes: c.fixes.map(f => f.label) })),
+  });
+}
+
+// Returns true when the runner settings changed
+async function applyToolchainFix(fix: ToolchainFix): Promise<boolean> {
+  switch (fix.kind) {
+    case 'installUv':
+      await vscode.env.openExternal(vscode.Uri.parse(UV_INSTALL_URL));
+      return false;
+    case 'useRunner':
+      await updateRunnerSettings(fix.setup, fix.inWorkspace);
+      return true;
+    case 'addOffline': {
+      const cfg = getCfg();
+      await updateRunnerSettings({ ...runnerOf(cfg), runnerArgs: [...cfg.runnerArgs, '--offline'] });
+      return true;
+    }
+  }
+}
+
+// Tools found on PATH go to user settings: they are the user's own and need no workspace
+// confirmation. A binary inside the workspace (a .venv the repository may ship) goes to workspace
+// settings, so it only applies there and still needs the runner confirmation.
+async function updateRunnerSettings(runner: RunnerConfig, inWorkspace = false) {
+  const cfg = vscode.workspace.getConfiguration('sv2svgPreview');
+  const target = inWorkspace ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+  await cfg.update('runner', runner.runner, target);
+  await cfg.update('runnerArgs', runner.runnerArgs, target);
+  await cfg.update('command', runner.command, target);
+  toolVersions.clear();
+  toolHelp.clear();
+  log?.info(`Runner set to "${runnerCommandLine(runner)}" in ${inWorkspace ? 'workspace' : 'user'} settings`);
+  if (!inWorkspace && workspaceDefinesRunner()) {
+    vscode.window.showWarningMessage('Saved to your user settings, but this workspace overrides sv2svgPreview.runner, runnerArgs or command.');
+  }
+}
+
+function renderFailureKind(err: any, signal?: AbortSignal): RenderOutcome {
+  if (signal?.aborted || err?.name === 'AbortError') return 'cancelled';
+  // execFile kills the child on timeout and reports the signal it used
+  if (err?.killed && err?.signal) return 'timedout';
+  return 'failed';
+}
+
+function getSourceIndex(doc: vscode.TextDocument): SourceIndex {
+  const key = doc.uri.toString();
+  const cached = sourceIndexes.get(key);
+  if (cached && cached.version === doc.version) return cached.index;
+  const index = indexSource(doc.getText());
+  sourceIndexes.set(key, { version: doc.version, index });
+  return index;
+}
+
+function getNetlist(doc: vscode.TextDocument, module?: string): Netlist {
+  const key = `${doc.uri.toString()}#${module ?? ''}`;
+  const cached = netlists.get(key);
+  if (cached && cached.version === doc.version) return cached.netlist;
+  const netlist = buildNetlist(doc.getText(), module);
+  netlists.set(key, { version: doc.version, netlist });
+  return netlist;
+}
+
+// Answer a click in trace mode with the clicked net's connectivity or fan-in/fan-out cone
+async function postTrace(panel: vscode.WebviewPanel, uri: vscode.Uri, request: { names: string[]; mode: TraceMode; depth: number }, module?: string): Promise<void> {
+  if (isClosedUntitled(uri)) return;
+  const doc = await vscode.workspace.openTextDocument(uri);
+  const trace = traceNet(getNetlist(doc, module), request.names, request.mode, request.depth);
+  if (!trace) vscode.window.setStatusBarMessage(`Preview .sv: no connectivity found for '${request.names[0] ?? ''}'`, 2000);
+  panel.webview.postMessage({ type: 'trace', mode: request.mode, maxDepth: request.depth, trace: trace ?? null });
+}
+
+function getSimModel(doc: vscode.TextDocument, module?: string): SimModel | undefined {
+  const key = `${doc.uri.toString()}#${module ?? ''}`;
+  const cached = simModels.get(key);
+  if (cached && cached.version === doc.version) return cached.model;
+  const model = buildSimModel(doc.getText(), module);
+  simModels.set(key, { version: doc.version, model });
+  return model;
+}
+
+// Evaluate the previewed module for the input values set in the webview's Simulate mode
+async function postSimulation(panel: vscode.WebviewPanel, uri: vscode.Uri, inputs: Record<string, string>, module?: string): Promise<void> {
+  if (isClosedUntitled(uri)) return;
+  const doc = await vscode.workspace.openTextDocument(uri);
+  let model: SimModel | undefined;
+  let result: SimResult;
+  try {
+    model = getSimModel(doc, module);
+    if (!model) {
+      panel.webview.postMessage({ type: 'simulation', error: 'This file declares no module to simulate.' });
+      return;
+    }
+    result = simulate(model, inputs);
+  } catch (err: any) {
+    panel.webview.postMessage({ type: 'simulation', error: `Simulation failed: ${err?.message ?? err}` });
+    return;
+  }
+  panel.webview.postMessage({
+    type: 'simulation',
+    module: model.module,
+    ports: model.ports,
+    values: result.values,
+    settled: result.settled,
+    unsupported: model.unsupported,
+  });
+}
+
+async function exportTruthTable(uri: vscode.Uri, module?: string): Promise<void> {
+  if (isClosedUntitled(uri)) return;
+  const doc = await vscode.workspace.openTextDocument(uri);
+  let model: SimModel | undefined;
+  let table: ReturnType<typeof truthTable>;
+  try {
+    model = getSimModel(doc, module);
+    if (!model) {
+      vscode.window.showInformationMessage('Nothing to simulate: this file declares no module.');
+      return;
+    }
+    table = truthTable(model, TRUTH_TABLE_MAX_INPUT_BITS);
+  } catch (err: any) {
+    vscode.window.showErrorMessage(`Truth table export failed: ${err?.message ?? err}`);
+    return;
+  }
+  const saveUri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(sourceDir(uri), `${model.module}-truth-table.csv`)),
+    filters: { 'CSV Files': ['csv'] },
+  });
+  if (!saveUri) return;
+  try {
+    const csv = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: `Computing the truth table of ${model.module}`,
+      cancellable: true,
+    }, async (progress, token) => {
+      const lines: string[] = [];
+      for (const line of table.lines) {
+        lines.push(line);
+        // Yield between chunks of rows so the extension host stays responsive and can cancel
+        if (lines.length % TRUTH_TABLE_CHUNK_ROWS === 0) {
+          progress.report({ increment: 100 * TRUTH_TABLE_CHUNK_ROWS / table.rows });
+          await new Promise(resolve => setImmediate(resolve));
+          if (token.isCancellationRequested) return undefined;
+        }
+      }
+      return lines.join('\n') + '\n';
+    });
+    if (csv === undefined) return;
+    await vscode.workspace.fs.writeFile(saveUri, Buffer.from(csv, 'utf8'));
+    const skipped = model.unsupported.length ? ` ${model.unsupported.length} statement(s) were not simulated; the nets they drive are X.` : '';
+    vscode.window.showInformationMessage(`Truth table saved to ${path.basename(saveUri.fsPath)}.${skipped}`);
+  } catch (err: any) {
+    vscode.window.showErrorMessage(`Truth table export failed: ${err?.message ?? err}`);
+  }
+}
+
+// Selected module per file, remembered across sessions; undefined renders the whole file
+function getSelectedModule(ctx: vscode.ExtensionContext, uri: vscode.Uri): string | undefined {
+  const selections = ctx.workspaceState.get<Record<string, string>>('sv2svgPreview.selectedModules', {});
+  const module = selections[uri.toString()];
+  if (!module) return undefined;
+  // Ignore a stale choice once the module is gone from the file
+  const doc = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+  if (doc && !getSourceIndex(doc).modules.some(m => m.name === module)) return undefined;
+  return module;
+}
+
+async function setSelectedModule(ctx: vscode.ExtensionContext, uri: vscode.Uri, module: string | undefined): Promise<void> {
+  const selections = { ...ctx.workspaceState.get<Record<string, string>>('sv2svgPreview.selectedModules', {}) };
+  if (module) {
+    selections[uri.toString()] = module;
+  } else {
+    delete selections[uri.toString()];
+  }
+  await ctx.workspaceState.update('sv2svgPreview.selectedModules', selections);
+}
+
+function namesAtCursor(doc: vscode.TextDocument, pos: vscode.Position, module?: string): string[] {
+  const index = getSourceIndex(doc);
+  const offset = doc.offsetAt(pos);
+  // Cursor outside the rendered module has nothing to highlight
+  if (module && !index.modules.some(m => m.name === module && m.offset <= offset && offset <= m.end)) return [];
+  const wordRange = doc.getWordRangeAtPosition(pos, /[A-Za-z_][\w$]*/);
+  const word = wordRange ? doc.getText(wordRange) : undefined;
+  return namesAt(index, offset, word);
+}
+
+async function revealSource(uri: vscode.Uri, labels: string[], module?: string): Promise<boolean> {
+  const doc = await vscode.workspace.openTextDocument(uri);
+  const index = getSourceIndex(doc);
+  for (const label of labels) {
+    if (typeof label !== 'string') continue;
+    for (const name of labelToNames(label)) {
+      const sym = findDefinition(index, name, module);
+      if (!sym) continue;
+      const range = new vscode.Range(doc.positionAt(sym.offset), doc.positionAt(sym.end));
+      // Prefer the editor group that already shows the source
+      const visible = vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === uri.toString());
+      const editor = await vscode.window.showTextDocument(doc, {
+        viewColumn: visible?.viewColumn ?? vscode.ViewColumn.One,
+        selection: range,
+      });
+      editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+      return true;
+    }
+  }
+  vscode.window.setStatusBarMessage(`Preview .sv: no source found for '${labels[0] ?? ''}'`, 2000);
+  return false;
+}
+
+function isSvFile(uri: vscode.Uri): boolean {
+  const ext = path.extname(uri.fsPath).toLowerCase();
+  return ext === '.sv' || ext === '.svh';
+}
+
+function isSvDocument(doc: vscode.TextDocument): boolean {
+  return isSvFile(doc.uri) || SV_LANGUAGE_IDS.has(doc.languageId);
+}
+
+// A closed untitled document cannot be reopened: openTextDocument would create a new, empty one
+function isClosedUntitled(uri: vscode.Uri): boolean {
+  return uri.scheme === 'untitled' && !vscode.workspace.textDocuments.some(d => d.uri.toString() === uri.toString());
+}
+
+// The tool only reads local files: everything but a saved local file is handed over as a copy
+function rendersCopy(uri: vscode.Uri, useTemp: boolean): boolean {
+  return useTemp || uri.scheme !== 'file';
+}
+
+// Directory standing in for the source's own: untitled and virtual documents have none on disk,
+// so the first local workspace folder (or the home directory) is used
+function sourceDir(uri: vscode.Uri): string {
+  if (uri.scheme === 'file') return path.dirname(uri.fsPath);
+  return vscode.workspace.workspaceFolders?.find(f => f.uri.scheme === 'file')?.uri.fsPath ?? os.homedir();
+}
+
+function localFolder(uri: vscode.Uri): string | undefined {
+  const folder = vscode.workspace.getWorkspaceFolder(uri)?.uri;
+  return folder?.scheme === 'file' ? folder.fsPath : undefined;
+}
+
+// File name for a copy of the source, keeping the document's own name for captions and error messages
+function sourceFileName(uri: vscode.Uri): string {
+  const name = path.posix.basename(uri.path) || 'untitled';
+  return /\.(sv|svh|v)$/i.test(name) ? name : `${name}.sv`;
+}
+
+// A fresh path in the session directory; each copy gets its own subdirectory so it keeps its file name
+function sessionTempFile(name: string): string {
+  if (!sessionDir) sessionDir = fs.mkdtempSync(path.join(os.tmpdir(), TEMP_PREFIX));
+  const dir = path.join(sessionDir, String(++sessionFiles));
+  fs.mkdirSync(dir);
+  return path.join(dir, name);
+}
+
+function removeSessionTemp(file: string) {
+  fs.promises.rm(path.dirname(file), { recursive: true, force: true }).catch(() => {});
+}
+
+function isSessionTemp(file: string): boolean {
+  return !!sessionDir && path.resolve(file).startsWith(sessionDir + path.sep);
+}
+
+function isExcluded(uri: vscode.Uri): boolean {
+  const cfg = getCfg();
+  try {
+    const re = new RegExp(cfg.excludePattern);
+    return re.test(path.basename(uri.fsPath));
+  } catch {
+    return false;
+  }
+}
+
+async function maybeAutoOpen(doc: vscode.TextDocument, ctx: vscode.ExtensionContext) {
+  const cfg = getCfg();
+  if (!cfg.autoOnOpen) return;
+  if (!isSvDocument(doc)) return;
+  const uri = doc.uri;
+  if (isExcluded(uri)) return;
+  // A locked preview already shows this file; don't retarget the unlocked one to duplicate it
+  if (previewsFor(uri).some(p => p.locked)) return;
+  await openPreview(uri, vscode.ViewColumn.Beside, ctx);
+}
+
+function makeTitle(uri: vscode.Uri, module?: string, locked = false): string {
+  const name = path.parse(uri.fsPath).name;
+  const title = module ? `Preview ${name} (${module})` : `Preview ${name}`;
+  return locked ? `[Locked] ${title}` : title;
+}
+
+function getIcon(ctx: vscode.ExtensionContext): vscode.Uri | { light: vscode.Uri, dark: vscode.Uri } {
+  const icon = vscode.Uri.joinPath(ctx.extensionUri, 'media', 'icon.svg');
+  return icon;
+}
+
+async function runSv2Svg(uri: vscode.Uri, useTemp: boolean, params: RenderParams = {}): Promise<string> {
+  const { module, signal } = params;
+  const cfg = getCfg();
+  await ensureRunnerAllowed(cfg);
+  const cwd = localFolder(uri) || sourceDir(uri);
+  const timeout = cfg.renderTimeoutMs;
+  const help = await getToolHelp(cfg);
+
+  let targetPath = uri.fsPath;
+  let tmpPath: string | undefined;
+  let input: string | undefined;
+
+  const copy = rendersCopy(uri, useTemp);
+  // Checks that can fail come before the temp copy, which only the finally below removes
+  const options = params.options ?? (await resolveRenderOptions(uri, await renderSourceText(uri, useTemp, params))).options;
+  const project = params.project ?? getProjectCfg(uri, copy);
+  if (project.filelist && !(await fileExists(project.filelist))) {
+    throw new Error(`Filelist not found: ${project.filelist}`);
+  }
+
+  if (copy) {
+    // Unsaved contents, an untitled or virtual document, or the given source: through stdin when
+    // the tool reads it, otherwise from a temp file in the session directory
+    input = params.text ?? (await vscode.workspace.openTextDocument(uri)).getText();
+    if (help?.stdin) {
+      targetPath = '-';
+    } else {
+      tmpPath = sessionTempFile(sourceFileName(uri));
+      try {
+        await fs.promises.writeFile(tmpPath, input, 'utf8');
+      } catch (err) {
+        removeSessionTemp(tmpPath);
+        throw err;
+      }
+      targetPath = tmpPath;
+      input = undefined;
+    }
+  }
+
+  // First attempt: stdout mode using configured args
+  const args = buildArgs(cfg, targetPath, cfg.args, options, module, project, help?.flags);
+  const fullArgs = [...cfg.runnerArgs, ...args];
+  const source = params.text !== undefined ? 'given source' : uri.scheme === 'file' ? 'unsaved buffer' : uri.scheme;
+  const name = uri.scheme === 'file' ? uri.fsPath : uri.toString();
+  log?.info(`Rendering ${name}${copy ? ` from ${source} (${tmpPath ?? 'stdin'})` : ''}`);
+  try {
+    const { stdout } = await execRunner('stdout', cfg.runner, fullArgs, { cwd, timeout, signal, input });
+    const svg = extractSvg(stdout.toString());
+    if (!svg) throw new Error('No SVG found in stdout');
+    return svg;
+  } catch (e: any) {
+    // Cancelled or timed out: retrying would only repeat the wait
+    if (renderFailureKind(e, signal) !== 'failed') throw e;
+    // If stdout mode likely failed (e.g., requires file extension), retry to a temp .svg
+    const outTmp = sessionTempFile(`${path.parse(sourceFileName(uri)).name}.svg`);
+    log?.warn(`Stdout mode failed (${e?.message?.split('\n')[0] ?? e}); retrying with output file ${outTmp}`);
+    try {
+      const argsWithFile = rewriteOutputPath(fullArgs, outTmp);
+      const { stdout, stderr } = await execRunner('file', cfg.runner, argsWithFile, { cwd, timeout, signal, input });
+      // Prefer reading file if created, else try stdout as svg
+      const exists = await fileExists(outTmp);
+      if (exists) {
+        const data = await fs.promises.readFile(outTmp, 'utf8');
+        return data;
+      }
+      const svg2 = extractSvg(stdout?.toString() || '');
+      if (svg2) return svg2;
+      const msg = e?.message || 'Unknown error';
+      const cmd = `${cfg.runner} ${shellEscape(argsWithFile)}`;
+      throw new Error(`${stderr?.toString() || msg}\n\nCommand: ${cmd}`);
+    } finally {
+      removeSessionTemp(outTmp);
+    }
+  } finally {
+    if (tmpPath) removeSessionTemp(tmpPath);
+  }
+}
+
+// execFile wrapper that records the invocation, cwd, output mode, exit status, stderr and duration
+async function execRunner(
+  mode: 'stdout' | 'file',
+  runner: string,
+  args: string[],
+  // input: source text written to the tool's stdin
+  opts: { cwd: string; timeout: number; signal?: AbortSignal; input?: string },
+): Promise<{ stdout: string; stderr: string }> {
+  const started = Date.now();
+  const { input, ...execOpts } = opts;
+  log?.info(`[${mode}] ${shellEscape([runner, ...args])}${input !== undefined ? ` < (${input.length} chars)` : ''}`);
+  log?.info(`[${mode}] cwd: ${opts.cwd}`);
+  try {
+    const run = pExecFile(runner, args, { ...execOpts, maxBuffer: 10 * 1024 * 1024 });
+    if (input !== undefined) {
+      // A tool that exits without reading everything closes the pipe early; its exit status tells the story
+      run.child.stdin?.on('error', () => {});
+      run.child.stdin?.end(input);
+    }
+    const { stdout, stderr } = await run;
+    log?.info(`[${mode}] exit 0 in ${Date.now() - started} ms`);
+    if (stderr.trim()) log?.warn(`[${mode}] stderr:\n${stderr.trim()}`);
+    return { stdout, stderr };
+  } catch (e: any) {
+    const kind = renderFailureKind(e, opts.signal);
+    const status = kind === 'failed' ? `exit ${e?.code ?? 'unknown'}` : kind;
+    log?.error(`[${mode}] ${status} after ${Date.now() - started} ms`);
+    const stderr = e?.stderr?.toString().trim();
+    if (stderr) log?.error(`[${mode}] stderr:\n${stderr}`);
+    throw e;
+  }
+}
+
+// Flags missing from `supported` (the tool's --help) are left out and reported once
+function buildArgs(cfg: Cfg, filePath: string, extra: string[], options: Sv2SvgOptions, module?: string, project?: ProjectCfg, supported?: Set<string>): string[] {
+  const sequence: string[] = [];
+  // An empty command means the runner is sv2svg itself (a venv or globally installed binary)
+  const command = toolCommand(cfg);
+  if (command) sequence.push(command);
+
+  // Build sv2svg options
+  const sv2svgArgs: string[] = [];
+  const skipped: string[] = [];
+  const add = (flag: string, ...values: string[]) => {
+    if (supported && !supported.has(flag)) {
+      skipped.push(flag);
+    } else {
+      sv2svgArgs.push(flag, ...values);
+    }
+  };
+
+  // Module selection (whole file when unset)
+  if (module) {
+    add('--module', module);
+  }
+
+  // Project context
+  if (project) {
+    for (const dir of project.includeDirs) sv2svgArgs.push('-I', dir);
+    for (const [name, value] of Object.entries(project.defines)) {
+      sv2svgArgs.push('-D', value ? `${name}=${value}` : name);
+    }
+    if (project.filelist) sv2svgArgs.push('-f', project.filelist);
+  }
+
+  // Input order
+  if (options.inputOrder !== 'alpha') {
+    add(OPTION_FLAGS.inputOrder, options.inputOrder);
   }
 
   // Grid settings
   if (options.gridX > 0) {
-    sv2svgArgs.push('--grid-x', String(options.gridX));
+    add(OPTION_FLAGS.gridX, String(options.gridX));
   }
   if (options.gridY > 0) {
-    sv2svgArgs.push('--grid-y', String(options.gridY));
+    add(OPTION_FLAGS.gridY, String(options.gridY));
   }
 
   // Boolean flags
-  if (options.noSymmetry) sv2svgArgs.push('--no-symmetry');
-  if (options.table) sv2svgArgs.push('--table');
-  if (options.noCaption) sv2svgArgs.push('--no-caption');
-  if (options.noInternalLabels) sv2svgArgs.push('--no-internal-labels');
-  if (options.noLabels) sv2svgArgs.push('--no-labels');
-  if (options.fillGates) sv2svgArgs.push('--fill-gates');
-  if (options.signalStyles) sv2svgArgs.push('--signal-styles');
-  if (options.fanoutWires) sv2svgArgs.push('--fanout-wires');
+  if (options.noSymmetry) add(OPTION_FLAGS.noSymmetry);
+  if (options.table) add(OPTION_FLAGS.table);
+  if (options.noCaption) add(OPTION_FLAGS.noCaption);
+  if (options.noInternalLabels) add(OPTION_FLAGS.noInternalLabels);
+  if (options.noLabels) add(OPTION_FLAGS.noLabels);
+  if (options.fillGates) add(OPTION_FLAGS.fillGates);
+  if (options.signalStyles) add(OPTION_FLAGS.signalStyles);
+  if (options.fanoutWires) add(OPTION_FLAGS.fanoutWires);
 
   // Style
   if (options.style !== 'classic') {
-    sv2svgArgs.push('--style', options.style);
+    add(OPTION_FLAGS.style, options.style);
   }
 
   // Orientation
   if (options.orientation !== 'horizontal') {
-    sv2svgArgs.push('--orientation', options.orientation);
+    add(OPTION_FLAGS.orientation, options.orientation);
   }
 
   // Font scale
   if (options.fontScale !== 1.2) {
-    sv2svgArgs.push('--font-scale', String(options.fontScale));
+    add(OPTION_FLAGS.fontScale, String(options.fontScale));
   }
 
+  if (skipped.length) warnUnsupportedFlags(cfg, skipped);
+
   // Combine all args
   if (cfg.argsBeforeFile) {
     sequence.push(...sv2svgArgs, ...extra);
@@ -422,6 +2435,19 @@ function buildArgs(cfg: Cfg, filePath: string, extra: string[], options: Sv2SvgO
   return sequence;
 }
 
+function warnUnsupportedFlags(cfg: Cfg, flags: string[]) {
+  const key = toolKey(cfg);
+  const fresh = flags.filter(flag => !warnedFlags.has(`${key} ${flag}`));
+  log?.warn(`Leaving out flags the installed sv2svg does not support: ${flags.join(' ')}`);
+  if (!fresh.length) return;
+  for (const flag of fresh) warnedFlags.add(`${key} ${flag}`);
+  const tool = runnerCommandLine({ ...runnerOf(cfg), command: toolCommand(cfg) });
+  vscode.window.showWarningMessage(
+    `${tool} does not support ${fresh.join(', ')}; the option${fresh.length > 1 ? 's were' : ' was'} left out. `
+    + 'Update sv2svg (e.g. add "--refresh" to sv2svgPreview.runnerArgs once) or pin a newer one with sv2svgPreview.toolVersion.',
+  );
+}
+
 function rewriteOutputPath(args: string[], newPath: string): string[] {
   // Replace '-o -' or '--output -' with the provided path.
   const res = [...args];
@@ -454,34 +2480,36 @@ function shellEscape(parts: string[]): string {
   return parts.map(p => /[\s"'`$]/.test(p) ? `'` + p.replace(/'/g, `'"'"'`) + `'` : p).join(' ');
 }
 
-function loadingHtml(): string {
-  return `<!DOCTYPE html>
-  <html><head><meta charset="utf-8">
-  <style>
-    html, body { height: 100%; margin: 0; background: var(--vscode-editor-background); color: var(--vscode-editor-foreground); }
-    .wrap { height: 100%; display: grid; place-items: center; font-family: var(--vscode-font-family); }
-  </style>
-  </head><body><div class="wrap">Rendering…</div></body></html>`;
+// A fresh nonce each time a page is generated: only the extension's own script may run. Inline
+// styles stay allowed because rendered SVGs style themselves; img-src covers rasterization.
+function contentSecurityPolicy(webview: vscode.Webview, nonce: string): string {
+  return [
+    "default-src 'none'",
+    `style-src ${webview.cspSource} 'unsafe-inline'`,
+    `img-src ${webview.cspSource} blob: data:`,
+    `font-src ${webview.cspSource}`,
+    `script-src 'nonce-${nonce}'`,
+    // default-src does not cover these
+    "form-action 'none'",
+    "base-uri 'none'",
+  ].join('; ');
 }
 
-function errorHtml(msg: string): string {
-  const esc = msg.replace(/[&<>]/g, s => ({'&':'&amp;','<':'&lt;','>':'&gt;'}[s] as string));
-  return `<!DOCTYPE html>
-  <html><head><meta charset="utf-8">
-  <style>
-    html, body { height: 100%; margin: 0; background: var(--vscode-editor-background); color: var(--vscode-editor-foreground); }
-    pre { white-space: pre-wrap; padding: 1rem; }
-  </style>
-  </head><body><pre>${esc}</pre></body></html>`;
+function makeNonce(): string {
+  return crypto.randomBytes(16).toString('base64');
 }
 
-function wrapSvg(svg: string): string {
+// Persistent preview document: renders arrive through postMessage so zoom, pan and the
+// settings panel survive re-renders.
+function previewHtml(webview: vscode.Webview): string {
   const options = currentSv2SvgOptions || getDefaultSv2SvgOptions();
   const optionsJson = JSON.stringify(options);
+  const nonce = makeNonce();
   return `<!DOCTYPE html>
   <html>
   <head>
     <meta charset="utf-8" />
+    <meta http-equiv="Content-Security-Policy" content="${contentSecurityPolicy(webview, nonce)}" />
     <style>
       * { box-sizing: border-box; }
       html, body {
@@ -573,6 +2601,18 @@ function wrapSvg(svg: string): string {
         font-weight: 600;
       }
 
+      #moduleSelect, #presetSelect, #traceMode, #traceDepth {
+        width: auto;
+        max-width: 180px;
+        height: 32px;
+        padding: 0 10px;
+        border-radius: 16px;
+        background: transparent;
+        border: none;
+        color: var(--vscode-foreground);
+        cursor: pointer;
+      }
+
       /* Settings panel */
       #settingsPanel {
         position: fixed;
@@ -653,6 +2693,22 @@ function wrapSvg(svg: string): string {
         margin-top: 1px;
       }
 
+      .option-origin {
+        display: block;
+        font-size: 10px;
+        opacity: 0.5;
+        margin-top: 2px;
+      }
+
+      .option-origin.pinned {
+        opacity: 1;
+        color: var(--vscode-textLink-foreground);
+      }
+
+      .unsupported {
+        opacity: 0.45;
+      }
+
       select, input[type="number"] {
         width: 100%;
         padding: 7px 10px;
@@ -691,70 +2747,425 @@ function wrapSvg(svg: string): string {
         font-size: 12px;
       }
 
-      .panel-actions {
-        padding: 16px 20px;
-        background: var(--vscode-editor-background);
-        border-top: 1px solid var(--vscode-widget-border);
-        display: flex;
-        gap: 10px;
-        position: sticky;
-        bottom: 0;
+      .panel-actions {
+        padding: 16px 20px;
+        background: var(--vscode-editor-background);
+        border-top: 1px solid var(--vscode-widget-border);
+        display: flex;
+        gap: 10px;
+        position: sticky;
+        bottom: 0;
+      }
+
+      .panel-actions button {
+        flex: 1;
+        width: auto;
+        height: auto;
+        border-radius: 6px;
+        padding: 10px 20px;
+        font-size: 12px;
+        font-weight: 500;
+        opacity: 1;
+        letter-spacing: 0.3px;
+      }
+
+      .panel-actions button::after {
+        display: none;
+      }
+
+      #resetBtn, #savePresetBtn {
+        background: transparent;
+        color: var(--vscode-foreground);
+        border: 1px solid rgba(127, 127, 127, 0.3);
+      }
+
+      #resetBtn:hover, #savePresetBtn:hover {
+        background: rgba(127, 127, 127, 0.1);
+        border-color: rgba(127, 127, 127, 0.5);
+        transform: none;
+      }
+
+      #applyBtn {
+        background: var(--vscode-button-background);
+        color: var(--vscode-button-foreground);
+        border: 1px solid transparent;
+      }
+
+      #applyBtn:hover {
+        background: var(--vscode-button-hoverBackground);
+        transform: none;
+        box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+      }
+
+      #container {
+        width: 100%;
+        height: 100%;
+        overflow: hidden;
+        cursor: grab;
+      }
+
+      #container.panning {
+        cursor: grabbing;
+      }
+
+      .render-error {
+        white-space: pre-wrap;
+        padding: 1rem;
+        margin: 0;
+        color: var(--vscode-editor-foreground);
+      }
+
+      svg {
+        width: 100%;
+        height: 100%;
+      }
+
+      svg text {
+        cursor: pointer;
+      }
+
+      svg .sv2svg-highlight {
+        filter: drop-shadow(0 0 2px var(--vscode-focusBorder)) drop-shadow(0 0 3px var(--vscode-focusBorder));
+      }
+
+      svg text.sv2svg-highlight {
+        font-weight: bold;
+      }
+
+      /* Net connectivity and fan-in/fan-out cones */
+      svg :is(path, line, polyline).sv2svg-trace {
+        stroke: var(--vscode-charts-orange, #d18616);
+        stroke-width: 2.5px;
+      }
+
+      svg text.sv2svg-trace {
+        fill: var(--vscode-charts-orange, #d18616);
+        font-weight: bold;
+      }
+
+      svg .sv2svg-trace-root {
+        filter: drop-shadow(0 0 2px var(--vscode-charts-orange, #d18616)) drop-shadow(0 0 3px var(--vscode-charts-orange, #d18616));
+      }
+
+      svg.sv2svg-tracing :is(path, line, polyline, polygon, rect, circle, ellipse, text):not(.sv2svg-trace) {
+        opacity: 0.25;
+      }
+
+      /* Simulate mode: nets and labels colored by their value */
+      svg :is(path, line, polyline).sv2svg-v0 {
+        stroke: var(--vscode-charts-blue, #3794ff);
+      }
+
+      svg :is(path, line, polyline).sv2svg-v1 {
+        stroke: var(--vscode-charts-green, #89d185);
+      }
+
+      svg :is(path, line, polyline).sv2svg-vx {
+        stroke: var(--vscode-charts-red, #f14c4c);
+        stroke-dasharray: 4 2;
+      }
+
+      svg text.sv2svg-v0 {
+        fill: var(--vscode-charts-blue, #3794ff);
+      }
+
+      svg text.sv2svg-v1 {
+        fill: var(--vscode-charts-green, #89d185);
+      }
+
+      svg text.sv2svg-vx {
+        fill: var(--vscode-charts-red, #f14c4c);
+      }
+
+      #simPanel {
+        position: fixed;
+        top: 56px;
+        left: 16px;
+        z-index: 10;
+        min-width: 180px;
+        max-width: 320px;
+        max-height: calc(100% - 140px);
+        overflow: auto;
+        padding: 6px 8px;
+        font-size: 12px;
+        background: var(--vscode-editorWidget-background);
+        color: var(--vscode-editorWidget-foreground);
+        border: 1px solid var(--vscode-editorWidget-border, rgba(127, 127, 127, 0.3));
+        border-radius: 6px;
+        box-shadow: 0 2px 8px var(--vscode-widget-shadow, rgba(0, 0, 0, 0.3));
+      }
+
+      #simPanel[hidden] {
+        display: none;
+      }
+
+      #simPanel .sim-header {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        gap: 8px;
+      }
+
+      #simPanel button {
+        width: 24px;
+        height: 24px;
+        font-size: 14px;
+        border-radius: 4px;
+      }
+
+      #simPanel button::after {
+        display: none;
+      }
+
+      .sim-ports {
+        display: grid;
+        grid-template-columns: auto 1fr;
+        gap: 2px 8px;
+        align-items: center;
+        margin-top: 6px;
+      }
+
+      .sim-ports .sim-value {
+        justify-self: start;
+        font-family: var(--vscode-editor-font-family);
+      }
+
+      #simPanel button.sim-value {
+        width: auto;
+        min-width: 24px;
+        padding: 0 6px;
+        border: 1px solid rgba(127, 127, 127, 0.4);
+      }
+
+      #simPanel input.sim-value {
+        width: 100px;
+        padding: 2px 4px;
+        background: var(--vscode-input-background);
+        color: var(--vscode-input-foreground);
+        border: 1px solid var(--vscode-input-border, transparent);
+      }
+
+      .sim-value.v0 { color: var(--vscode-charts-blue, #3794ff); }
+      .sim-value.v1 { color: var(--vscode-charts-green, #89d185); }
+      .sim-value.vx { color: var(--vscode-charts-red, #f14c4c); }
+
+      #simNotes {
+        margin-top: 6px;
+        color: var(--vscode-editorWarning-foreground);
+        white-space: pre-wrap;
+      }
+
+      #simNotes:empty {
+        display: none;
+      }
+
+      #simPanel button.sim-action {
+        width: 100%;
+        margin-top: 6px;
+        font-size: 12px;
+        border: 1px solid rgba(127, 127, 127, 0.4);
+      }
+
+      #traceInfo {
+        position: fixed;
+        top: 16px;
+        left: 16px;
+        z-index: 10;
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        max-width: calc(100% - 32px);
+        padding: 2px 2px 2px 12px;
+        font-size: 12px;
+        background: var(--vscode-editorWidget-background);
+        color: var(--vscode-editorWidget-foreground);
+        border: 1px solid var(--vscode-charts-orange, #d18616);
+        border-radius: 16px;
+      }
+
+      #traceInfo[hidden] {
+        display: none;
+      }
+
+      #traceInfo button {
+        width: 24px;
+        height: 24px;
+        font-size: 14px;
+      }
+
+      #traceInfo button::after {
+        display: none;
+      }
+
+      /* Non-blocking render progress */
+      #progress {
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 2px;
+        overflow: hidden;
+        z-index: 30;
+        pointer-events: none;
+      }
+
+      #progress.active::before {
+        content: '';
+        position: absolute;
+        top: 0;
+        left: -30%;
+        width: 30%;
+        height: 100%;
+        background: var(--vscode-progressBar-background);
+        animation: progress-slide 1.2s ease-in-out infinite;
+      }
+
+      @keyframes progress-slide {
+        from { left: -30%; }
+        to { left: 100%; }
+      }
+
+      /* Render errors are shown over the last good diagram */
+      #errorBanner {
+        position: fixed;
+        left: 16px;
+        right: 16px;
+        bottom: 16px;
+        max-height: 40%;
+        z-index: 12;
+        display: flex;
+        gap: 8px;
+        align-items: flex-start;
+        background: var(--vscode-inputValidation-errorBackground);
+        color: var(--vscode-foreground);
+        border: 1px solid var(--vscode-inputValidation-errorBorder);
+        border-radius: 6px;
+        padding: 8px 8px 8px 12px;
+        overflow: auto;
+      }
+
+      #errorBanner[hidden] {
+        display: none;
+      }
+
+      #errorBanner pre {
+        flex: 1;
+        margin: 0;
+        white-space: pre-wrap;
+        font-family: var(--vscode-editor-font-family);
+        font-size: 12px;
+      }
+
+      #errorBanner button {
+        flex: none;
+        width: 24px;
+        height: 24px;
+        font-size: 16px;
+      }
+
+      #errorBanner button::after {
+        display: none;
+      }
+
+      #errorBanner button.error-action,
+      .render-error-actions button {
+        width: auto;
+        border-radius: 4px;
+        border: 1px solid var(--vscode-inputValidation-errorBorder);
+        font-size: 12px;
+        padding: 0 8px;
+      }
+
+      .render-error-actions button::after {
+        display: none;
+      }
+
+      #errorBanner button[hidden] {
+        display: none;
+      }
+
+      .render-error-actions {
+        padding: 0 1rem;
       }
 
-      .panel-actions button {
-        flex: 1;
-        width: auto;
-        height: auto;
+      /* Find in schematic (Ctrl+F) */
+      #searchBar {
+        position: fixed;
+        top: 64px;
+        right: 16px;
+        z-index: 11;
+        display: flex;
+        align-items: center;
+        gap: 2px;
+        padding: 4px;
+        background: var(--vscode-editorWidget-background);
+        color: var(--vscode-editorWidget-foreground);
+        border: 1px solid var(--vscode-editorWidget-border, rgba(127, 127, 127, 0.3));
         border-radius: 6px;
-        padding: 10px 20px;
-        font-size: 12px;
-        font-weight: 500;
-        opacity: 1;
-        letter-spacing: 0.3px;
+        box-shadow: 0 2px 8px var(--vscode-widget-shadow, rgba(0, 0, 0, 0.3));
       }
 
-      .panel-actions button::after {
+      #searchBar[hidden] {
         display: none;
       }
 
-      #resetBtn {
-        background: transparent;
-        color: var(--vscode-foreground);
-        border: 1px solid rgba(127, 127, 127, 0.3);
+      #searchBar input {
+        width: 200px;
+        padding: 3px 6px;
+        background: var(--vscode-input-background);
+        color: var(--vscode-input-foreground);
+        border: 1px solid var(--vscode-input-border, transparent);
+        border-radius: 2px;
+        outline: none;
       }
 
-      #resetBtn:hover {
-        background: rgba(127, 127, 127, 0.1);
-        border-color: rgba(127, 127, 127, 0.5);
-        transform: none;
+      #searchBar input:focus {
+        border-color: var(--vscode-focusBorder);
       }
 
-      #applyBtn {
-        background: var(--vscode-button-background);
-        color: var(--vscode-button-foreground);
-        border: 1px solid transparent;
+      #searchBar input.no-match {
+        border-color: var(--vscode-inputValidation-errorBorder);
       }
 
-      #applyBtn:hover {
-        background: var(--vscode-button-hoverBackground);
-        transform: none;
-        box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+      #searchCount {
+        min-width: 64px;
+        padding: 0 6px;
+        font-size: 12px;
+        opacity: 0.8;
+        white-space: nowrap;
       }
 
-      #container {
-        width: 100%;
-        height: 100%;
-        overflow: hidden;
-        cursor: grab;
+      #searchBar button {
+        width: 24px;
+        height: 24px;
+        font-size: 14px;
+        border-radius: 4px;
       }
 
-      #container.panning {
-        cursor: grabbing;
+      #searchBar button::after {
+        display: none;
       }
 
-      svg {
-        width: 100%;
-        height: 100%;
+      #searchBar button[aria-pressed="true"] {
+        background: var(--vscode-inputOption-activeBackground, rgba(127, 127, 127, 0.3));
+        outline: 1px solid var(--vscode-inputOption-activeBorder, var(--vscode-focusBorder));
+      }
+
+      svg text.sv2svg-match {
+        paint-order: stroke;
+        stroke: var(--vscode-editor-findMatchHighlightBackground, rgba(234, 92, 0, 0.33));
+        stroke-width: 6px;
+        stroke-linejoin: round;
+      }
+
+      svg text.sv2svg-match-current {
+        stroke: var(--vscode-editor-findMatchBackground, rgba(255, 150, 50, 0.6));
+        font-weight: bold;
+      }
+
+      /* "Dim others": fade every shape and label except the matches */
+      svg.sv2svg-dim :is(path, line, polyline, polygon, rect, circle, ellipse, text):not(.sv2svg-match) {
+        opacity: 0.15;
       }
 
       /* Overlay when panel is open */
@@ -785,15 +3196,63 @@ function wrapSvg(svg: string): string {
   </head>
   <body>
     <div id="overlay"></div>
+    <div id="progress"></div>
+    <div id="errorBanner" hidden>
+      <pre id="errorText"></pre>
+      <button id="errorToolchain" class="error-action" hidden>Check Toolchain…</button>
+      <button id="errorClose" title="Dismiss">×</button>
+    </div>
 
     <div id="toolbar">
+      <select id="moduleSelect" title="Module" hidden></select>
+      <select id="presetSelect" title="Preset" hidden></select>
+      <select id="traceMode" title="On click">
+        <option value="source">Go to source</option>
+        <option value="net">Highlight net</option>
+        <option value="fanin">Fan-in cone</option>
+        <option value="fanout">Fan-out cone</option>
+      </select>
+      <select id="traceDepth" title="Cone depth" hidden>
+        <option value="1">Depth 1</option>
+        <option value="2">Depth 2</option>
+        <option value="3">Depth 3</option>
+        <option value="5">Depth 5</option>
+        <option value="0">Full cone</option>
+      </select>
       <button id="zoomIn" title="Zoom In (+)">+</button>
       <button id="zoomOut" title="Zoom Out (−)">−</button>
       <button id="reset" title="Reset (0)">⌂</button>
-      <button id="downloadBtn" title="Download SVG (D)">↓</button>
+      <button id="searchBtn" title="Find (Ctrl+F)">⌕</button>
+      <button id="simBtn" title="Simulate (M)" aria-pressed="false">▷</button>
+      <button id="downloadBtn" title="Export (D)">↓</button>
       <button id="menuBtn" title="Settings (S)">⚙</button>
     </div>
 
+    <div id="traceInfo" hidden>
+      <span id="traceText"></span>
+      <button id="traceClear" title="Clear selection (Escape)">×</button>
+    </div>
+
+    <div id="simPanel" hidden>
+      <div class="sim-header">
+        <strong id="simTitle">Simulate</strong>
+        <button id="simClose" title="Stop simulating (M)">×</button>
+      </div>
+      <div id="simInputs" class="sim-ports"></div>
+      <div id="simOutputs" class="sim-ports"></div>
+      <div id="simNotes"></div>
+      <button id="simExport" class="sim-action">Export truth table (CSV)…</button>
+    </div>
+
+    <div id="searchBar" hidden>
+      <input id="searchInput" type="text" placeholder="Find net, port or instance" spellcheck="false" />
+      <span id="searchCount"></span>
+      <button id="searchPrev" title="Previous match (Shift+Enter)">↑</button>
+      <button id="searchNext" title="Next match (Enter)">↓</button>
+      <button id="searchDim" title="Dim everything else" aria-pressed="false">◐</button>
+      <button id="searchClose" title="Close (Escape)">×</button>
+    </div>
+
     <div id="settingsPanel">
       <div class="panel-header">
         <h2>sv2svg Settings</h2>
@@ -954,120 +3413,820 @@ function wrapSvg(svg: string): string {
 
       <div class="panel-actions">
         <button id="resetBtn">Reset to Defaults</button>
+        <button id="savePresetBtn" title="Save these options as a named preset">Save as Preset…</button>
         <button id="applyBtn">Apply</button>
       </div>
     </div>
 
-    <div id="container">${svg}</div>
+    <div id="container"></div>
 
-    <script>
+    <script nonce="${nonce}">
       const vscode = acquireVsCodeApi();
 
       (function(){
         const container = document.getElementById('container');
-        const svg = container.querySelector('svg');
-        if (!svg) return;
+        const progress = document.getElementById('progress');
+        const errorBanner = document.getElementById('errorBanner');
+        const errorText = document.getElementById('errorText');
+        const errorToolchain = document.getElementById('errorToolchain');
+
+        // The document persists across renders; each render swaps the SVG in place
+        let svg = null;
+        let hasViewBox = false;
+        let viewBoxAttr = null;
+        let lastHighlight = [];
+
+        // Viewport saved before a window reload, applied to the first render
+        const savedState = vscode.getState() || {};
+        let restoredView = savedState.viewBox && savedState.baseViewBox
+          ? { base: savedState.baseViewBox, view: savedState.viewBox }
+          : null;
+
+        function saveState() {
+          vscode.setState({
+            ...(vscode.getState() || {}),
+            viewBox: svg && hasViewBox ? svg.getAttribute('viewBox') : undefined,
+            baseViewBox: viewBoxAttr || undefined,
+          });
+        }
 
-        const hasViewBox = svg.hasAttribute('viewBox');
-        const viewBoxAttr = svg.getAttribute('viewBox');
+        const viewObserver = new MutationObserver(saveState);
 
         // Zoom controls (unchanged logic)
         const zoomIn = document.getElementById('zoomIn');
         const zoomOut = document.getElementById('zoomOut');
         const reset = document.getElementById('reset');
 
-        zoomIn.addEventListener('click', ()=> {
-          if (!hasViewBox) return;
-          const parts = svg.getAttribute('viewBox').split(' ');
-          if (parts.length === 4) {
-            const vb = parts.map(Number);
-            const newW = vb[2] * 0.8;
-            const newH = vb[3] * 0.8;
-            const newX = vb[0] + (vb[2] - newW) / 2;
-            const newY = vb[1] + (vb[3] - newH) / 2;
-            svg.setAttribute('viewBox', [newX, newY, newW, newH].join(' '));
+        zoomIn.addEventListener('click', ()=> {
+          if (!hasViewBox) return;
+          const parts = svg.getAttribute('viewBox').split(' ');
+          if (parts.length === 4) {
+            const vb = parts.map(Number);
+            const newW = vb[2] * 0.8;
+            const newH = vb[3] * 0.8;
+            const newX = vb[0] + (vb[2] - newW) / 2;
+            const newY = vb[1] + (vb[3] - newH) / 2;
+            svg.setAttribute('viewBox', [newX, newY, newW, newH].join(' '));
+          }
+        });
+
+        zoomOut.addEventListener('click', ()=> {
+          if (!hasViewBox) return;
+          const parts = svg.getAttribute('viewBox').split(' ');
+          if (parts.length === 4) {
+            const vb = parts.map(Number);
+            const newW = vb[2] * 1.25;
+            const newH = vb[3] * 1.25;
+            const newX = vb[0] - (newW - vb[2]) / 2;
+            const newY = vb[1] - (newH - vb[3]) / 2;
+            svg.setAttribute('viewBox', [newX, newY, newW, newH].join(' '));
+          }
+        });
+
+        reset.addEventListener('click', ()=> {
+          if (!hasViewBox) return;
+          svg.setAttribute('viewBox', viewBoxAttr);
+        });
+
+        // Export: the extension asks for the format and options
+        const downloadBtn = document.getElementById('downloadBtn');
+        downloadBtn.addEventListener('click', ()=> {
+          vscode.postMessage({ type: 'export' });
+        });
+
+        // Recolor a full-size background rect so "white" export does not keep a dark theme backdrop
+        function forceWhiteBackground(root, vb) {
+          root.style.background = '#ffffff';
+          const first = Array.from(root.children).find(c => !['defs', 'style', 'title', 'desc', 'metadata'].includes(c.tagName.toLowerCase()));
+          if (!first || first.tagName.toLowerCase() !== 'rect') return;
+          const rw = first.getAttribute('width') || '';
+          const rh = first.getAttribute('height') || '';
+          const full = rw === '100%' || (vb.length === 4 && parseFloat(rw) >= vb[2] && parseFloat(rh) >= vb[3]);
+          if (full) {
+            first.setAttribute('fill', '#ffffff');
+            first.style.fill = '#ffffff';
+          }
+        }
+
+        async function rasterize(req) {
+          try {
+            const doc = new DOMParser().parseFromString(req.svg, 'image/svg+xml');
+            const root = doc.documentElement;
+            const vb = (root.getAttribute('viewBox') || '').trim().split(/[\\s,]+/).map(Number);
+            const attrSize = (name) => {
+              const v = root.getAttribute(name) || '';
+              return v.endsWith('%') ? NaN : parseFloat(v);
+            };
+            let w = attrSize('width');
+            let h = attrSize('height');
+            if (!(w > 0 && h > 0) && vb.length === 4) {
+              w = vb[2];
+              h = vb[3];
+            }
+            if (!(w > 0 && h > 0)) {
+              w = 800;
+              h = 600;
+            }
+            if (req.background === 'white') forceWhiteBackground(root, vb);
+            root.setAttribute('width', String(w));
+            root.setAttribute('height', String(h));
+            root.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+            const markup = new XMLSerializer().serializeToString(root);
+
+            // Stay within canvas limits for very large diagrams
+            const scale = Math.min(req.scale, 8192 / Math.max(w, h));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(w * scale));
+            canvas.height = Math.max(1, Math.round(h * scale));
+            const ctx = canvas.getContext('2d');
+            if (req.background === 'white' || req.mime === 'image/jpeg') {
+              ctx.fillStyle = '#ffffff';
+              ctx.fillRect(0, 0, canvas.width, canvas.height);
+            }
+            const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+            try {
+              const img = new Image();
+              await new Promise((resolve, reject) => {
+                img.onload = resolve;
+                img.onerror = () => reject(new Error('Could not load the SVG for rasterization'));
+                img.src = url;
+              });
+              ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            } finally {
+              URL.revokeObjectURL(url);
+            }
+            const dataUrl = canvas.toDataURL(req.mime, 0.95);
+            vscode.postMessage({ type: 'rasterized', id: req.id, dataUrl, width: canvas.width, height: canvas.height, scale });
+          } catch (err) {
+            vscode.postMessage({ type: 'rasterized', id: req.id, error: String((err && err.message) || err) });
+          }
+        }
+
+        // Pan/drag functionality (unchanged)
+        let panning = false;
+        let startX = 0;
+        let startY = 0;
+
+        container.addEventListener('mousedown', (e)=> {
+          if (e.button === 0 && hasViewBox) {
+            panning = true;
+            startX = e.clientX;
+            startY = e.clientY;
+            container.classList.add('panning');
+            e.preventDefault();
+          }
+        });
+
+        window.addEventListener('mousemove', (e)=> {
+          if (!panning) return;
+          const dx = e.clientX - startX;
+          const dy = e.clientY - startY;
+          const parts = svg.getAttribute('viewBox').split(' ');
+          if (parts.length === 4) {
+            const vb = parts.map(Number);
+            const containerRect = container.getBoundingClientRect();
+            const vbDx = -(dx / containerRect.width) * vb[2];
+            const vbDy = -(dy / containerRect.height) * vb[3];
+            svg.setAttribute('viewBox', [(vb[0] + vbDx), (vb[1] + vbDy), vb[2], vb[3]].join(' '));
+          }
+          startX = e.clientX;
+          startY = e.clientY;
+        });
+
+        window.addEventListener('mouseup', ()=> {
+          panning = false;
+          container.classList.remove('panning');
+        });
+
+        // Click-to-source: map the clicked element to label candidates and let the extension resolve them
+        let downX = 0;
+        let downY = 0;
+
+        function nearestText(x, y, radius) {
+          if (!svg) return null;
+          let best = null;
+          let bestDist = radius;
+          svg.querySelectorAll('text').forEach((t) => {
+            const r = t.getBoundingClientRect();
+            const dx = Math.max(r.left - x, 0, x - r.right);
+            const dy = Math.max(r.top - y, 0, y - r.bottom);
+            const d = Math.sqrt(dx * dx + dy * dy);
+            if (d <= bestDist) {
+              best = t;
+              bestDist = d;
+            }
+          });
+          return best;
+        }
+
+        function labelsForElement(el, x, y) {
+          const names = [];
+          const push = (s) => {
+            s = (s || '').trim();
+            if (s && !names.includes(s)) names.push(s);
+          };
+          for (let n = el; n && n.nodeType === 1 && n !== container; n = n.parentNode) {
+            const tag = n.tagName.toLowerCase();
+            if (tag === 'text' || tag === 'tspan') push(n.textContent);
+            const title = Array.from(n.children).find(c => c.tagName.toLowerCase() === 'title');
+            if (title) push(title.textContent);
+            ['data-name', 'data-net', 'data-signal', 'data-instance'].forEach(a => push(n.getAttribute(a)));
+            if (n.id) push(n.id);
+            if (n === svg) break;
+          }
+          const near = nearestText(x, y, 24);
+          if (near) push(near.textContent);
+          return names;
+        }
+
+        container.addEventListener('mousedown', (e)=> {
+          downX = e.clientX;
+          downY = e.clientY;
+        });
+
+        container.addEventListener('click', (e)=> {
+          // Ignore clicks that ended a pan
+          if (Math.abs(e.clientX - downX) > 4 || Math.abs(e.clientY - downY) > 4) return;
+          const names = labelsForElement(e.target, e.clientX, e.clientY);
+          if (!names.length) return;
+          if (simulating && toggleInputFromLabels(names)) return;
+          if (traceMode.value === 'source') {
+            vscode.postMessage({ type: 'revealSource', names });
+          } else {
+            requestTrace(names);
+          }
+        });
+
+        container.addEventListener('wheel', (e)=> {
+          if (!hasViewBox) return;
+          e.preventDefault();
+          const parts = svg.getAttribute('viewBox').split(' ');
+          if (parts.length === 4) {
+            const vb = parts.map(Number);
+            const factor = e.deltaY < 0 ? 0.9 : 1.1;
+            const newW = vb[2] * factor;
+            const newH = vb[3] * factor;
+            const newX = vb[0] + (vb[2] - newW) / 2;
+            const newY = vb[1] + (vb[3] - newH) / 2;
+            svg.setAttribute('viewBox', [newX, newY, newW, newH].join(' '));
+          }
+        }, { passive: false });
+
+        // Cursor-driven highlighting from the editor
+        function elementsForName(name) {
+          if (!svg) return [];
+          const found = [];
+          svg.querySelectorAll('text').forEach((t) => {
+            const label = (t.textContent || '').trim();
+            if (label === name || label.replace(/\\[[^\\]]*\\]$/, '') === name) found.push(t);
+          });
+          svg.querySelectorAll('[id], [data-name], [data-net], [data-signal], [data-instance]').forEach((el) => {
+            if (el === svg) return;
+            if (el.id === name || ['data-name', 'data-net', 'data-signal', 'data-instance'].some(a => el.getAttribute(a) === name)) {
+              found.push(el);
+            }
+          });
+          return found;
+        }
+
+        // Bounding box of elements in SVG user coordinates: [minX, minY, maxX, maxY]
+        function userBox(elements) {
+          const ctm = svg.getScreenCTM();
+          if (!ctm) return null;
+          const inv = ctm.inverse();
+          let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+          elements.forEach((el) => {
+            const r = el.getBoundingClientRect();
+            [[r.left, r.top], [r.right, r.bottom]].forEach(([x, y]) => {
+              const p = new DOMPoint(x, y).matrixTransform(inv);
+              minX = Math.min(minX, p.x); minY = Math.min(minY, p.y);
+              maxX = Math.max(maxX, p.x); maxY = Math.max(maxY, p.y);
+            });
+          });
+          return Number.isFinite(minX) ? [minX, minY, maxX, maxY] : null;
+        }
+
+        function panIntoView(elements) {
+          if (!hasViewBox || !elements.length) return;
+          const box = userBox(elements);
+          if (!box) return;
+          const [minX, minY, maxX, maxY] = box;
+          const vb = svg.getAttribute('viewBox').split(' ').map(Number);
+          if (vb.length !== 4) return;
+          const inside = minX >= vb[0] && minY >= vb[1] && maxX <= vb[0] + vb[2] && maxY <= vb[1] + vb[3];
+          if (inside) return;
+          const cx = (minX + maxX) / 2;
+          const cy = (minY + maxY) / 2;
+          svg.setAttribute('viewBox', [cx - vb[2] / 2, cy - vb[3] / 2, vb[2], vb[3]].join(' '));
+        }
+
+        function highlight(names, pan = true) {
+          lastHighlight = names || [];
+          if (!svg) return;
+          svg.querySelectorAll('.sv2svg-highlight').forEach(el => el.classList.remove('sv2svg-highlight'));
+          const matches = [];
+          lastHighlight.forEach(name => matches.push(...elementsForName(name)));
+          matches.forEach(el => el.classList.add('sv2svg-highlight'));
+          if (pan) panIntoView(matches);
+        }
+
+        // Find in schematic: case-insensitive search of the diagram's text labels
+        const searchBar = document.getElementById('searchBar');
+        const searchInput = document.getElementById('searchInput');
+        const searchCount = document.getElementById('searchCount');
+        const searchDim = document.getElementById('searchDim');
+        let searchMatches = [];
+        let searchIndex = -1;
+        let viewAnimation = 0;
+
+        function openSearch() {
+          searchBar.hidden = false;
+          searchInput.focus();
+          searchInput.select();
+          runSearch(false);
+        }
+
+        function closeSearch() {
+          searchBar.hidden = true;
+          clearSearch();
+          container.focus();
+        }
+
+        function clearSearch() {
+          if (!svg) return;
+          svg.querySelectorAll('.sv2svg-match').forEach(el => el.classList.remove('sv2svg-match', 'sv2svg-match-current'));
+          svg.classList.remove('sv2svg-dim');
+        }
+
+        // Collect matches for the current query; frame: move the view to the current match
+        function runSearch(frame) {
+          clearSearch();
+          const query = searchInput.value.trim().toLowerCase();
+          searchMatches = !svg || !query ? [] : Array.from(svg.querySelectorAll('text'))
+            .filter(t => (t.textContent || '').toLowerCase().includes(query));
+          searchMatches.forEach(el => el.classList.add('sv2svg-match'));
+          if (searchMatches.length && searchDim.getAttribute('aria-pressed') === 'true') svg.classList.add('sv2svg-dim');
+          searchIndex = searchMatches.length ? Math.min(Math.max(searchIndex, 0), searchMatches.length - 1) : -1;
+          searchInput.classList.toggle('no-match', !!query && !searchMatches.length);
+          showCurrentMatch(frame);
+        }
+
+        function stepSearch(delta) {
+          if (!searchMatches.length) return;
+          searchIndex = (searchIndex + delta + searchMatches.length) % searchMatches.length;
+          showCurrentMatch(true);
+        }
+
+        function showCurrentMatch(frame) {
+          searchMatches.forEach((el, i) => el.classList.toggle('sv2svg-match-current', i === searchIndex));
+          searchCount.textContent = searchInput.value.trim()
+            ? (searchMatches.length ? (searchIndex + 1) + ' of ' + searchMatches.length : 'No results')
+            : '';
+          if (frame && searchIndex >= 0) frameElements([searchMatches[searchIndex]]);
+        }
+
+        // Animate the viewBox so the elements are centered, zooming out when they do not fit
+        // and in when they are too small to read
+        function frameElements(elements) {
+          if (!hasViewBox) return;
+          const box = userBox(elements);
+          const from = parseViewBox(svg.getAttribute('viewBox'));
+          if (!box || !from) return;
+          const bw = Math.max(box[2] - box[0], 1);
+          const bh = Math.max(box[3] - box[1], 1);
+          let scale = Math.max(bw / (from[2] * 0.8), bh / (from[3] * 0.8), 1);
+          if (scale === 1 && bw < from[2] * 0.02) scale = bw / (from[2] * 0.1);
+          const w = from[2] * scale;
+          const h = from[3] * scale;
+          const to = [(box[0] + box[2]) / 2 - w / 2, (box[1] + box[3]) / 2 - h / 2, w, h];
+          cancelAnimationFrame(viewAnimation);
+          const start = performance.now();
+          const step = (now) => {
+            const t = Math.min((now - start) / 250, 1);
+            const ease = 1 - Math.pow(1 - t, 3);
+            svg.setAttribute('viewBox', from.map((v, i) => v + (to[i] - v) * ease).join(' '));
+            if (t < 1) viewAnimation = requestAnimationFrame(step);
+          };
+          viewAnimation = requestAnimationFrame(step);
+        }
+
+        document.getElementById('searchBtn').addEventListener('click', () => {
+          if (searchBar.hidden) openSearch(); else closeSearch();
+        });
+        searchInput.addEventListener('input', () => {
+          searchIndex = 0;
+          runSearch(true);
+        });
+        searchInput.addEventListener('keydown', (e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            stepSearch(e.shiftKey ? -1 : 1);
+          } else if (e.key === 'Escape') {
+            e.preventDefault();
+            e.stopPropagation();
+            closeSearch();
+          }
+        });
+        document.getElementById('searchPrev').addEventListener('click', () => stepSearch(-1));
+        document.getElementById('searchNext').addEventListener('click', () => stepSearch(1));
+        document.getElementById('searchClose').addEventListener('click', closeSearch);
+        searchDim.addEventListener('click', () => {
+          searchDim.setAttribute('aria-pressed', String(searchDim.getAttribute('aria-pressed') !== 'true'));
+          runSearch(false);
+        });
+
+        // Trace mode: a click highlights the net's connectivity or its fan-in/fan-out cone
+        const traceMode = document.getElementById('traceMode');
+        const traceDepth = document.getElementById('traceDepth');
+        const traceInfo = document.getElementById('traceInfo');
+        const traceText = document.getElementById('traceText');
+        // Names of the last traced click, replayed after each render
+        let traceNames = null;
+        traceMode.value = savedState.traceMode || 'source';
+        traceDepth.value = savedState.traceDepth || '0';
+        traceDepth.hidden = traceMode.value !== 'fanin' && traceMode.value !== 'fanout';
+
+        function requestTrace(names) {
+          traceNames = names;
+          vscode.postMessage({ type: 'trace', names, mode: traceMode.value, depth: Number(traceDepth.value) });
+        }
+
+        function clearTrace() {
+          traceNames = null;
+          traceInfo.hidden = true;
+          if (!svg) return;
+          svg.querySelectorAll('.sv2svg-trace').forEach(el => el.classList.remove('sv2svg-trace', 'sv2svg-trace-root'));
+          svg.classList.remove('sv2svg-tracing');
+        }
+
+        // Labels and shapes for a name, including shapes whose <title> names it
+        function traceElements(name) {
+          const found = elementsForName(name);
+          svg.querySelectorAll('title').forEach((t) => {
+            if ((t.textContent || '').trim() !== name || t.parentNode === svg) return;
+            found.push(t.parentNode, ...t.parentNode.querySelectorAll('path, line, polyline, polygon, rect, circle, ellipse, text'));
+          });
+          return found;
+        }
+
+        function showTrace(msg) {
+          const names = traceNames;
+          clearTrace();
+          if (!msg.trace || !svg) return;
+          traceNames = names;
+          const t = msg.trace;
+          t.nets.concat(t.nodes).forEach(name => traceElements(name).forEach(el => el.classList.add('sv2svg-trace')));
+          traceElements(t.root).forEach(el => el.classList.add('sv2svg-trace', 'sv2svg-trace-root'));
+          svg.classList.add('sv2svg-tracing');
+          const what = msg.mode === 'fanin' ? 'Fan-in of ' : msg.mode === 'fanout' ? 'Fan-out of ' : 'Net ';
+          let text = what + t.root + ': ' + t.nets.length + (t.nets.length === 1 ? ' net' : ' nets');
+          if (t.nodes.length) text += ', ' + t.nodes.length + (t.nodes.length === 1 ? ' cell' : ' cells');
+          if (msg.mode !== 'net') text += ', ' + t.depth + (t.depth === 1 ? ' level' : ' levels') + (t.truncated ? ' (depth limit reached)' : '');
+          traceText.textContent = text;
+          traceInfo.hidden = false;
+        }
+
+        function saveTraceSettings() {
+          vscode.setState({ ...(vscode.getState() || {}), traceMode: traceMode.value, traceDepth: traceDepth.value });
+        }
+
+        traceMode.addEventListener('change', () => {
+          traceDepth.hidden = traceMode.value !== 'fanin' && traceMode.value !== 'fanout';
+          saveTraceSettings();
+          if (traceMode.value === 'source') clearTrace();
+          else if (traceNames) requestTrace(traceNames);
+        });
+        traceDepth.addEventListener('change', () => {
+          saveTraceSettings();
+          if (traceNames) requestTrace(traceNames);
+        });
+        document.getElementById('traceClear').addEventListener('click', clearTrace);
+
+        // Simulate mode: toggle primary inputs and color nets 0, 1 or X
+        const simBtn = document.getElementById('simBtn');
+        const simPanel = document.getElementById('simPanel');
+        const simTitle = document.getElementById('simTitle');
+        const simInputsEl = document.getElementById('simInputs');
+        const simOutputsEl = document.getElementById('simOutputs');
+        const simNotes = document.getElementById('simNotes');
+        let simulating = false;
+        // Input values, most significant bit first, and the ports of the simulated module
+        let simInputs = {};
+        let simPorts = [];
+
+        function startSimulation() {
+          simulating = true;
+          simPanel.hidden = false;
+          simBtn.setAttribute('aria-pressed', 'true');
+          requestSimulation();
+        }
+
+        function stopSimulation() {
+          simulating = false;
+          simPanel.hidden = true;
+          simBtn.setAttribute('aria-pressed', 'false');
+          clearSimulation();
+        }
+
+        function requestSimulation() {
+          vscode.postMessage({ type: 'simulate', inputs: simInputs });
+        }
+
+        function clearSimulation() {
+          if (!svg) return;
+          svg.querySelectorAll('.sv2svg-v0, .sv2svg-v1, .sv2svg-vx').forEach(el => el.classList.remove('sv2svg-v0', 'sv2svg-v1', 'sv2svg-vx'));
+        }
+
+        function valueClass(bits) {
+          return bits.includes('x') ? 'vx' : bits.includes('1') ? 'v1' : 'v0';
+        }
+
+        // Bit of a value for a declared index; nets that are not ports are assumed to count from 0
+        function bitAt(name, bits, index) {
+          const port = simPorts.find(p => p.name === name);
+          const offset = !port ? index : port.msb >= port.lsb ? index - port.lsb : port.lsb - index;
+          return bits[bits.length - 1 - offset] || 'x';
+        }
+
+        function colorNets(values) {
+          clearSimulation();
+          if (!svg) return;
+          Object.keys(values).forEach((name) => {
+            const bits = values[name];
+            traceElements(name).forEach((el) => {
+              // A label such as "sum[2]" shows one bit of a vector
+              const m = el.tagName.toLowerCase() === 'text' ? /\\[(\\d+)\\]$/.exec((el.textContent || '').trim()) : null;
+              el.classList.add('sv2svg-' + valueClass(m ? bitAt(name, bits, Number(m[1])) : bits));
+            });
+          });
+        }
+
+        // Scalars toggle; vectors count up, wrapping, with X bits read as 0
+        function stepInput(name) {
+          const bits = simInputs[name].toLowerCase().replace(/x/g, '0').split('');
+          for (let i = bits.length - 1; i >= 0; i--) {
+            if (bits[i] === '0') {
+              bits[i] = '1';
+              break;
+            }
+            bits[i] = '0';
+          }
+          simInputs[name] = bits.join('');
+          requestSimulation();
+        }
+
+        function flipInputBit(name, index) {
+          const bits = simInputs[name].split('');
+          const port = simPorts.find(p => p.name === name);
+          const offset = port.msb >= port.lsb ? index - port.lsb : port.lsb - index;
+          const i = bits.length - 1 - offset;
+          if (i < 0 || i >= bits.length) return false;
+          bits[i] = bits[i] === '1' ? '0' : '1';
+          simInputs[name] = bits.join('');
+          requestSimulation();
+          return true;
+        }
+
+        // A click on an input's label in the schematic changes that input
+        function toggleInputFromLabels(labels) {
+          for (const label of labels) {
+            if (Object.prototype.hasOwnProperty.call(simInputs, label)) {
+              stepInput(label);
+              return true;
+            }
+            const m = /^(.+)\\[(\\d+)\\]$/.exec(label);
+            if (m && Object.prototype.hasOwnProperty.call(simInputs, m[1]) && flipInputBit(m[1], Number(m[2]))) return true;
           }
-        });
+          return false;
+        }
 
-        zoomOut.addEventListener('click', ()=> {
-          if (!hasViewBox) return;
-          const parts = svg.getAttribute('viewBox').split(' ');
-          if (parts.length === 4) {
-            const vb = parts.map(Number);
-            const newW = vb[2] * 1.25;
-            const newH = vb[3] * 1.25;
-            const newX = vb[0] - (newW - vb[2]) / 2;
-            const newY = vb[1] - (newH - vb[3]) / 2;
-            svg.setAttribute('viewBox', [newX, newY, newW, newH].join(' '));
+        function portRow(parent, port, value, editable) {
+          const name = document.createElement('span');
+          name.textContent = port.width > 1 ? port.name + '[' + port.msb + ':' + port.lsb + ']' : port.name;
+          let control;
+          if (editable && port.width === 1) {
+            control = document.createElement('button');
+            control.title = 'Toggle ' + port.name;
+            control.addEventListener('click', () => stepInput(port.name));
+          } else if (editable) {
+            control = document.createElement('input');
+            control.type = 'text';
+            control.spellcheck = false;
+            control.maxLength = port.width;
+            control.title = 'Binary value of ' + port.name + ', most significant bit first';
+            control.value = value;
+            control.addEventListener('change', () => {
+              const v = control.value.trim().toLowerCase();
+              if (/^[01x]+$/.test(v)) {
+                simInputs[port.name] = v.padStart(port.width, '0');
+                requestSimulation();
+              } else {
+                control.value = simInputs[port.name];
+              }
+            });
+          } else {
+            control = document.createElement('span');
           }
-        });
+          if (control.tagName !== 'INPUT') control.textContent = value;
+          control.classList.add('sim-value', valueClass(value));
+          parent.append(name, control);
+        }
 
-        reset.addEventListener('click', ()=> {
-          if (!hasViewBox) return;
-          svg.setAttribute('viewBox', viewBoxAttr);
+        function showSimulation(msg) {
+          if (!simulating) return;
+          simInputsEl.replaceChildren();
+          simOutputsEl.replaceChildren();
+          if (msg.error) {
+            simTitle.textContent = 'Simulate';
+            simNotes.textContent = msg.error;
+            clearSimulation();
+            return;
+          }
+          simPorts = msg.ports || [];
+          simInputs = {};
+          simPorts.filter(p => p.direction === 'input').forEach((p) => {
+            simInputs[p.name] = msg.values[p.name];
+            portRow(simInputsEl, p, msg.values[p.name], true);
+          });
+          simPorts.filter(p => p.direction !== 'input').forEach(p => portRow(simOutputsEl, p, msg.values[p.name] || 'x', false));
+          simTitle.textContent = 'Simulate ' + msg.module;
+          const notes = [];
+          if (!msg.settled) notes.push('Did not settle: the logic contains a combinational loop.');
+          if (msg.unsupported && msg.unsupported.length) {
+            notes.push('Not simulated (driven nets stay X):');
+            msg.unsupported.slice(0, 5).forEach(u => notes.push('  ' + u));
+            if (msg.unsupported.length > 5) notes.push('  … and ' + (msg.unsupported.length - 5) + ' more');
+          }
+          simNotes.textContent = notes.join('\\n');
+          colorNets(msg.values);
+        }
+
+        simBtn.addEventListener('click', () => {
+          if (simulating) stopSimulation(); else startSimulation();
+        });
+        document.getElementById('simClose').addEventListener('click', stopSimulation);
+        document.getElementById('simExport').addEventListener('click', () => {
+          vscode.postMessage({ type: 'exportTruthTable' });
         });
 
-        // Download functionality
-        const downloadBtn = document.getElementById('downloadBtn');
-        downloadBtn.addEventListener('click', ()=> {
-          if (!svg) return;
-          // Serialize the SVG
-          const serializer = new XMLSerializer();
-          const svgString = serializer.serializeToString(svg);
-          // Send to extension for download
-          vscode.postMessage({ type: 'downloadSvg', svg: svgString });
+        // Module picker (only shown when the file declares several modules)
+        const moduleSelect = document.getElementById('moduleSelect');
+        moduleSelect.addEventListener('change', () => {
+          vscode.postMessage({ type: 'selectModule', module: moduleSelect.value });
         });
 
-        // Pan/drag functionality (unchanged)
-        let panning = false;
-        let startX = 0;
-        let startY = 0;
+        function setModules(modules, selected) {
+          moduleSelect.hidden = modules.length < 2;
+          moduleSelect.replaceChildren();
+          ['', ...modules].forEach((m) => {
+            const opt = document.createElement('option');
+            opt.value = m;
+            opt.textContent = m || 'All modules';
+            opt.selected = m === (selected || '');
+            moduleSelect.appendChild(opt);
+          });
+        }
 
-        container.addEventListener('mousedown', (e)=> {
-          if (e.button === 0 && hasViewBox) {
-            panning = true;
-            startX = e.clientX;
-            startY = e.clientY;
-            container.classList.add('panning');
-            e.preventDefault();
-          }
+        // Preset picker: shows the preset the options match, or "Custom"
+        const presetSelect = document.getElementById('presetSelect');
+        presetSelect.addEventListener('change', () => {
+          if (presetSelect.value) vscode.postMessage({ type: 'applyPreset', name: presetSelect.value });
         });
 
-        window.addEventListener('mousemove', (e)=> {
-          if (!panning) return;
-          const dx = e.clientX - startX;
-          const dy = e.clientY - startY;
-          const parts = svg.getAttribute('viewBox').split(' ');
-          if (parts.length === 4) {
-            const vb = parts.map(Number);
-            const containerRect = container.getBoundingClientRect();
-            const vbDx = -(dx / containerRect.width) * vb[2];
-            const vbDy = -(dy / containerRect.height) * vb[3];
-            svg.setAttribute('viewBox', [(vb[0] + vbDx), (vb[1] + vbDy), vb[2], vb[3]].join(' '));
+        function setPresets(names, active) {
+          presetSelect.hidden = names.length === 0;
+          presetSelect.replaceChildren();
+          ['', ...names].forEach((n) => {
+            const opt = document.createElement('option');
+            opt.value = n;
+            opt.textContent = n || 'Custom';
+            opt.selected = n === (active || '');
+            presetSelect.appendChild(opt);
+          });
+        }
+
+        function parseViewBox(value) {
+          const vb = (value || '').trim().split(/[\\s,]+/).map(Number);
+          return vb.length === 4 && vb.every(Number.isFinite) ? vb : null;
+        }
+
+        // Map the user's zoom/pan onto the new diagram proportionally to its size
+        function carryViewport(oldBase, oldView, newBase) {
+          if (!oldBase || !oldView || !newBase) return null;
+          if (oldView.join(' ') === oldBase.join(' ')) return null;
+          return [
+            newBase[0] + (oldView[0] - oldBase[0]) / oldBase[2] * newBase[2],
+            newBase[1] + (oldView[1] - oldBase[1]) / oldBase[3] * newBase[3],
+            oldView[2] / oldBase[2] * newBase[2],
+            oldView[3] / oldBase[3] * newBase[3],
+          ];
+        }
+
+        function setBusy(busy) {
+          progress.classList.toggle('active', busy);
+        }
+
+        // toolchain: the runner itself failed, so offer the toolchain check
+        function showError(message, toolchain) {
+          setBusy(false);
+          if (svg) {
+            errorText.textContent = message;
+            errorToolchain.hidden = !toolchain;
+            errorBanner.hidden = false;
+          } else {
+            // Nothing to keep on screen yet: show the error in place of the diagram
+            const pre = document.createElement('pre');
+            pre.className = 'render-error';
+            pre.textContent = message;
+            container.replaceChildren(pre);
+            if (toolchain) {
+              const actions = document.createElement('div');
+              actions.className = 'render-error-actions';
+              const button = document.createElement('button');
+              button.textContent = 'Check Toolchain…';
+              button.addEventListener('click', checkToolchain);
+              actions.appendChild(button);
+              container.appendChild(actions);
+            }
           }
-          startX = e.clientX;
-          startY = e.clientY;
-        });
+        }
 
-        window.addEventListener('mouseup', ()=> {
-          panning = false;
-          container.classList.remove('panning');
+        function checkToolchain() {
+          vscode.postMessage({ type: 'checkToolchain' });
+        }
+
+        document.getElementById('errorClose').addEventListener('click', () => {
+          errorBanner.hidden = true;
         });
+        errorToolchain.addEventListener('click', checkToolchain);
+
+        function applyRender(msg) {
+          // Zoom, pan and the traced net only carry over to a new render of the same diagram
+          const last = vscode.getState() || {};
+          const sameDiagram = last.uri === msg.uri && (last.module || '') === (msg.module || '');
+          let oldBase = parseViewBox(viewBoxAttr);
+          let oldView = svg && hasViewBox ? parseViewBox(svg.getAttribute('viewBox')) : null;
+          if (!svg && restoredView) {
+            oldBase = parseViewBox(restoredView.base);
+            oldView = parseViewBox(restoredView.view);
+          }
+          if (!sameDiagram) {
+            oldBase = null;
+            oldView = null;
+          }
+          restoredView = null;
+          viewObserver.disconnect();
+          container.innerHTML = msg.svg;
+          svg = container.querySelector('svg');
+          hasViewBox = !!svg && svg.hasAttribute('viewBox');
+          viewBoxAttr = hasViewBox ? svg.getAttribute('viewBox') : null;
+          const carried = carryViewport(oldBase, oldView, parseViewBox(viewBoxAttr));
+          if (carried) svg.setAttribute('viewBox', carried.join(' '));
+          if (svg) viewObserver.observe(svg, { attributes: true, attributeFilter: ['viewBox'] });
+          vscode.setState({ ...(vscode.getState() || {}), uri: msg.uri, module: msg.module || '', locked: !!msg.locked });
+          saveState();
+          setModules(msg.modules || [], msg.module);
+          setPresets(msg.presets || [], msg.preset);
+          if (msg.options) loadSettings(msg.options);
+          if (msg.origins) showOrigins(msg.origins);
+          if (msg.unsupported) showUnsupported(msg.unsupported, msg.toolVersion);
+          errorBanner.hidden = true;
+          setBusy(false);
+          if (lastHighlight.length) highlight(lastHighlight, false);
+          if (!searchBar.hidden) runSearch(false);
+          // The connectivity may have changed with the source
+          if (traceNames && sameDiagram) requestTrace(traceNames);
+          else if (traceNames) clearTrace();
+          if (simulating) requestSimulation();
+        }
 
-        container.addEventListener('wheel', (e)=> {
-          if (!hasViewBox) return;
-          e.preventDefault();
-          const parts = svg.getAttribute('viewBox').split(' ');
-          if (parts.length === 4) {
-            const vb = parts.map(Number);
-            const factor = e.deltaY < 0 ? 0.9 : 1.1;
-            const newW = vb[2] * factor;
-            const newH = vb[3] * factor;
-            const newX = vb[0] + (vb[2] - newW) / 2;
-            const newY = vb[1] + (vb[3] - newH) / 2;
-            svg.setAttribute('viewBox', [newX, newY, newW, newH].join(' '));
+        window.addEventListener('message', (event) => {
+          const msg = event.data;
+          if (!msg) return;
+          switch (msg.type) {
+            case 'render':
+              applyRender(msg);
+              break;
+            case 'rendering':
+              setBusy(true);
+              break;
+            case 'renderError':
+              showError(msg.message, !!msg.toolchain);
+              break;
+            case 'highlight':
+              highlight(msg.names);
+              break;
+            case 'trace':
+              showTrace(msg);
+              break;
+            case 'simulation':
+              showSimulation(msg);
+              break;
+            case 'rasterize':
+              rasterize(msg);
+              break;
           }
-        }, { passive: false });
+        });
 
         // Settings panel
         const panel = document.getElementById('settingsPanel');
@@ -1096,6 +4255,44 @@ function wrapSvg(svg: string): string {
           document.getElementById('fontScale').value = settings.fontScale;
         }
 
+        // Show where each value comes from; values set by the file or a .sv2svg.json are edited there
+        function showOrigins(origins) {
+          Object.keys(origins).forEach((key) => {
+            const input = document.getElementById(key);
+            if (!input) return;
+            const group = input.closest('.checkbox-group');
+            const host = group ? group.querySelector('label') : input.parentElement;
+            let badge = host.querySelector('.option-origin');
+            if (!badge) {
+              badge = document.createElement('span');
+              badge.className = 'option-origin';
+              host.appendChild(badge);
+            }
+            const origin = origins[key];
+            const pinned = origin.kind === 'configFile' || origin.kind === 'comment';
+            badge.textContent = origin.label;
+            badge.classList.toggle('pinned', pinned);
+            input.disabled = pinned;
+            input.title = pinned ? 'Set by ' + origin.label + '; change it there' : '';
+          });
+        }
+
+        // Options the installed sv2svg has no flag for; they are left out of renders
+        function showUnsupported(keys, version) {
+          for (const key of keys) {
+            const input = document.getElementById(key);
+            if (!input) continue;
+            input.disabled = true;
+            input.title = 'Not supported by ' + (version && version !== 'unknown' ? version : 'the installed sv2svg');
+            const group = input.closest('.checkbox-group') || input.parentElement;
+            group.classList.add('unsupported');
+          }
+          for (const group of document.querySelectorAll('.unsupported')) {
+            const input = group.querySelector('input, select');
+            if (input && !keys.includes(input.id)) group.classList.remove('unsupported');
+          }
+        }
+
         function getSettings() {
           return {
             inputOrder: document.getElementById('inputOrder').value,
@@ -1134,6 +4331,12 @@ function wrapSvg(svg: string): string {
           overlay.classList.remove('visible');
         });
 
+        document.getElementById('savePresetBtn').addEventListener('click', () => {
+          vscode.postMessage({ type: 'savePreset', settings: getSettings() });
+          panel.classList.remove('open');
+          overlay.classList.remove('visible');
+        });
+
         resetBtn.addEventListener('click', () => {
           vscode.postMessage({ type: 'resetSettings' });
           panel.classList.remove('open');
@@ -1142,6 +4345,11 @@ function wrapSvg(svg: string): string {
 
         // Keyboard shortcuts
         window.addEventListener('keydown', (e) => {
+          if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'f') {
+            e.preventDefault();
+            openSearch();
+            return;
+          }
           // Ignore if typing in input fields
           if (e.target.tagName === 'INPUT' || e.target.tagName === 'SELECT') {
             // Allow Escape to close panel even when focused on input
@@ -1172,6 +4380,11 @@ function wrapSvg(svg: string): string {
               e.preventDefault();
               downloadBtn.click();
               break;
+            case 'm':
+            case 'M':
+              e.preventDefault();
+              simBtn.click();
+              break;
             case 's':
             case 'S':
               e.preventDefault();
@@ -1184,9 +4397,449 @@ function wrapSvg(svg: string): string {
               }
               break;
             case 'Escape':
-              panel.classList.remove('open');
-              overlay.classList.remove('visible');
+              if (panel.classList.contains('open')) {
+                panel.classList.remove('open');
+                overlay.classList.remove('visible');
+              } else if (traceNames) {
+                clearTrace();
+              } else if (simulating) {
+                stopSimulation();
+              }
+              break;
+          }
+        });
+
+        vscode.postMessage({ type: 'ready' });
+      })();
+    </script>
+  </body>
+  </html>`;
+}
+
+// Side-by-side and overlay view of two renders with one shared zoom/pan
+function diffHtml(webview: vscode.Webview): string {
+  const nonce = makeNonce();
+  return `<!DOCTYPE html>
+  <html>
+  <head>
+    <meta charset="utf-8" />
+    <meta http-equiv="Content-Security-Policy" content="${contentSecurityPolicy(webview, nonce)}" />
+    <style>
+      * { box-sizing: border-box; }
+      html, body {
+        height: 100%;
+        margin: 0;
+        background: var(--vscode-editor-background);
+        color: var(--vscode-foreground);
+        font-family: var(--vscode-font-family);
+        font-size: var(--vscode-font-size);
+      }
+      body { display: flex; flex-direction: column; }
+      #toolbar {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        padding: 6px 10px;
+        border-bottom: 1px solid rgba(127, 127, 127, 0.2);
+      }
+      button {
+        background: transparent;
+        color: var(--vscode-foreground);
+        border: 1px solid transparent;
+        border-radius: 4px;
+        padding: 2px 8px;
+        cursor: pointer;
+        opacity: 0.8;
+      }
+      button:hover { opacity: 1; background: rgba(127, 127, 127, 0.2); }
+      button.active { border-color: var(--vscode-focusBorder); opacity: 1; }
+      .sep { width: 1px; height: 18px; background: rgba(127, 127, 127, 0.3); margin: 0 6px; }
+      #legend { margin-left: auto; opacity: 0.85; }
+      #legend .added { color: #2ea043; }
+      #legend .removed { color: #f85149; }
+      #legend .changed { color: #d29922; }
+      #status { padding: 16px; opacity: 0.8; white-space: pre-wrap; }
+      #status.error { color: var(--vscode-errorForeground); opacity: 1; }
+      #panes { flex: 1; display: flex; min-height: 0; }
+      .pane { flex: 1; display: flex; flex-direction: column; min-width: 0; }
+      .pane + .pane { border-left: 1px solid rgba(127, 127, 127, 0.3); }
+      .pane header { padding: 4px 10px; font-size: 11px; opacity: 0.75; }
+      .canvas { flex: 1; position: relative; overflow: hidden; cursor: grab; min-height: 0; }
+      .canvas.panning { cursor: grabbing; }
+      .canvas svg { position: absolute; inset: 0; width: 100%; height: 100%; }
+      #overlay { flex: 1; position: relative; min-height: 0; }
+      #overlay .layer { position: absolute; inset: 0; }
+      #overlayBefore { opacity: 0.45; pointer-events: none; }
+      #overlayAfter { opacity: 0.8; }
+      [hidden] { display: none !important; }
+      text.diff-added { fill: #2ea043 !important; font-weight: bold; }
+      text.diff-removed { fill: #f85149 !important; font-weight: bold; }
+      text.diff-changed { fill: #d29922 !important; font-weight: bold; }
+      .diff-added:not(text) { stroke: #2ea043 !important; stroke-width: 3px; }
+      .diff-removed:not(text) { stroke: #f85149 !important; stroke-width: 3px; }
+      .diff-changed:not(text) { stroke: #d29922 !important; stroke-width: 3px; }
+    </style>
+  </head>
+  <body>
+    <div id="toolbar">
+      <button id="sideBtn" class="active" title="Side by side (O toggles)">Side by side</button>
+      <button id="overlayBtn" title="Overlay (O toggles)">Overlay</button>
+      <span class="sep"></span>
+      <button id="zoomOut" title="Zoom out (-)">−</button>
+      <button id="zoomIn" title="Zoom in (+)">+</button>
+      <button id="reset" title="Reset view (0)">⟲</button>
+      <span id="legend"></span>
+    </div>
+    <div id="status">Rendering both versions…</div>
+    <div id="panes" hidden>
+      <section class="pane"><header id="beforeLabel"></header><div class="canvas" id="beforeCanvas"></div></section>
+      <section class="pane"><header id="afterLabel"></header><div class="canvas" id="afterCanvas"></div></section>
+    </div>
+    <div id="overlay" class="canvas" hidden>
+      <div class="layer" id="overlayBefore"></div>
+      <div class="layer" id="overlayAfter"></div>
+    </div>
+    <script nonce="${nonce}">
+      (function() {
+        const vscode = acquireVsCodeApi();
+        const statusEl = document.getElementById('status');
+        const panes = document.getElementById('panes');
+        const overlay = document.getElementById('overlay');
+        const sideBtn = document.getElementById('sideBtn');
+        const overlayBtn = document.getElementById('overlayBtn');
+        const legend = document.getElementById('legend');
+        let loaded = false;
+
+        // Shared viewport: zoom factor and center as fractions of each diagram's own extent,
+        // so both versions stay aligned even when their layouts differ in size
+        const view = { zoom: 1, cx: 0.5, cy: 0.5 };
+
+        function parseViewBox(value) {
+          const vb = (value || '').trim().split(/[\\s,]+/).map(Number);
+          return vb.length === 4 && vb.every(Number.isFinite) ? vb : null;
+        }
+
+        // Each revision is mounted twice (side by side and overlay), so every copy gets its own
+        // IDs, and url(#...), href="#..." and stylesheet references follow them. The renderer's
+        // ID stays in data-source-id for matching names.
+        function prefixIds(svg, prefix) {
+          const ids = new Set();
+          svg.querySelectorAll('[id]').forEach((el) => {
+            ids.add(el.id);
+            el.setAttribute('data-source-id', el.id);
+            el.id = prefix + el.id;
+          });
+          if (!ids.size) return;
+          const rewriteUrls = value => value.replace(/url\\(\\s*(['"]?)#([^'")\\s]+)\\1\\s*\\)/g,
+            (m, quote, id) => ids.has(id) ? 'url(' + quote + '#' + prefix + id + quote + ')' : m);
+          svg.querySelectorAll('*').forEach((el) => {
+            Array.from(el.attributes).forEach((attr) => {
+              if (attr.localName === 'href' && attr.value.startsWith('#') && ids.has(attr.value.slice(1))) {
+                attr.value = '#' + prefix + attr.value.slice(1);
+              } else if (attr.value.includes('url(')) {
+                attr.value = rewriteUrls(attr.value);
+              }
+            });
+            if (el.localName === 'style') {
+              el.textContent = (el.textContent || '').replace(/#([\\w-]+)/g, (m, id) => ids.has(id) ? '#' + prefix + id : m);
+            }
+          });
+        }
+
+        function mount(host, markup) {
+          host.innerHTML = markup;
+          const svg = host.querySelector('svg');
+          if (!svg) return null;
+          prefixIds(svg, host.id + '-');
+          let base = parseViewBox(svg.getAttribute('viewBox'));
+          if (!base) {
+            const w = parseFloat(svg.getAttribute('width'));
+            const h = parseFloat(svg.getAttribute('height'));
+            if (w > 0 && h > 0) base = [0, 0, w, h];
+          }
+          if (!base) return svg;
+          svg.removeAttribute('width');
+          svg.removeAttribute('height');
+          svg.setAttribute('preserveAspectRatio', 'xMidYMid meet');
+          svg.dataset.base = base.join(' ');
+          return svg;
+        }
+
+        function applyView() {
+          document.querySelectorAll('svg[data-base]').forEach((svg) => {
+            const b = parseViewBox(svg.dataset.base);
+            const w = b[2] / view.zoom;
+            const h = b[3] / view.zoom;
+            svg.setAttribute('viewBox', [b[0] + view.cx * b[2] - w / 2, b[1] + view.cy * b[3] - h / 2, w, h].join(' '));
+          });
+        }
+
+        function zoomBy(factor) {
+          view.zoom = Math.min(40, Math.max(0.1, view.zoom * factor));
+          applyView();
+        }
+
+        function resetView() {
+          view.zoom = 1;
+          view.cx = 0.5;
+          view.cy = 0.5;
+          applyView();
+        }
+
+        function attachPanZoom(el) {
+          let panning = false;
+          let lastX = 0;
+          let lastY = 0;
+          el.addEventListener('mousedown', (e) => {
+            panning = true;
+            lastX = e.clientX;
+            lastY = e.clientY;
+            el.classList.add('panning');
+          });
+          window.addEventListener('mousemove', (e) => {
+            if (!panning) return;
+            const rect = el.getBoundingClientRect();
+            if (rect.width > 0 && rect.height > 0) {
+              view.cx -= (e.clientX - lastX) / rect.width / view.zoom;
+              view.cy -= (e.clientY - lastY) / rect.height / view.zoom;
+              applyView();
+            }
+            lastX = e.clientX;
+            lastY = e.clientY;
+          });
+          window.addEventListener('mouseup', () => {
+            panning = false;
+            el.classList.remove('panning');
+          });
+          el.addEventListener('wheel', (e) => {
+            e.preventDefault();
+            zoomBy(e.deltaY < 0 ? 1.1 : 0.9);
+          }, { passive: false });
+        }
+
+        function elementsForName(svg, name) {
+          const found = [];
+          svg.querySelectorAll('text').forEach((t) => {
+            const label = (t.textContent || '').trim();
+            if (label === name || label.replace(/\\[[^\\]]*\\]$/, '') === name) found.push(t);
+          });
+          svg.querySelectorAll('[data-source-id], [data-name], [data-net], [data-signal], [data-instance]').forEach((el) => {
+            if (el === svg) return;
+            if (['data-source-id', 'data-name', 'data-net', 'data-signal', 'data-instance'].some(a => el.getAttribute(a) === name)) {
+              found.push(el);
+            }
+          });
+          return found;
+        }
+
+        function mark(svg, names, cls) {
+          if (!svg) return;
+          names.forEach(name => elementsForName(svg, name).forEach(el => el.classList.add(cls)));
+        }
+
+        function setMode(next) {
+          const isOverlay = next === 'overlay';
+          sideBtn.classList.toggle('active', !isOverlay);
+          overlayBtn.classList.toggle('active', isOverlay);
+          if (!loaded) return;
+          panes.hidden = isOverlay;
+          overlay.hidden = !isOverlay;
+        }
+
+        function showDiff(msg) {
+          document.getElementById('beforeLabel').textContent = msg.before.label;
+          document.getElementById('afterLabel').textContent = msg.after.label;
+          const pairs = [
+            [mount(document.getElementById('beforeCanvas'), msg.before.svg), mount(document.getElementById('overlayBefore'), msg.before.svg)],
+            [mount(document.getElementById('afterCanvas'), msg.after.svg), mount(document.getElementById('overlayAfter'), msg.after.svg)],
+          ];
+          pairs[0].forEach((svg) => {
+            mark(svg, msg.removed, 'diff-removed');
+            mark(svg, msg.changed, 'diff-changed');
+          });
+          pairs[1].forEach((svg) => {
+            mark(svg, msg.added, 'diff-added');
+            mark(svg, msg.changed, 'diff-changed');
+          });
+          legend.replaceChildren();
+          [['added', '+', msg.added], ['removed', '−', msg.removed], ['changed', '~', msg.changed]].forEach(([cls, sign, names]) => {
+            const span = document.createElement('span');
+            span.className = cls;
+            span.textContent = sign + names.length + ' ' + cls + ' ';
+            span.title = names.join(', ');
+            legend.appendChild(span);
+          });
+          statusEl.hidden = true;
+          loaded = true;
+          setMode(overlayBtn.classList.contains('active') ? 'overlay' : 'side');
+          resetView();
+        }
+
+        attachPanZoom(document.getElementById('beforeCanvas'));
+        attachPanZoom(document.getElementById('afterCanvas'));
+        attachPanZoom(overlay);
+        sideBtn.addEventListener('click', () => setMode('side'));
+        overlayBtn.addEventListener('click', () => setMode('overlay'));
+        document.getElementById('zoomIn').addEventListener('click', () => zoomBy(1.25));
+        document.getElementById('zoomOut').addEventListener('click', () => zoomBy(0.8));
+        document.getElementById('reset').addEventListener('click', resetView);
+
+        document.addEventListener('keydown', (e) => {
+          switch (e.key) {
+            case '+':
+            case '=':
+              zoomBy(1.25);
+              break;
+            case '-':
+              zoomBy(0.8);
               break;
+            case '0':
+              resetView();
+              break;
+            case 'o':
+            case 'O':
+              setMode(overlayBtn.classList.contains('active') ? 'side' : 'overlay');
+              break;
+          }
+        });
+
+        window.addEventListener('message', (event) => {
+          const msg = event.data;
+          if (msg.type === 'diff') {
+            showDiff(msg);
+          } else if (msg.type === 'diffError') {
+            statusEl.textContent = msg.message;
+            statusEl.classList.add('error');
+            statusEl.hidden = false;
+          }
+        });
+
+        vscode.postMessage({ type: 'ready' });
+      })();
+    </script>
+  </body>
+  </html>`;
+}
+
+function toolchainHtml(webview: vscode.Webview): string {
+  const nonce = makeNonce();
+  return `<!DOCTYPE html>
+  <html>
+  <head>
+    <meta charset="utf-8" />
+    <meta http-equiv="Content-Security-Policy" content="${contentSecurityPolicy(webview, nonce)}" />
+    <style>
+      body {
+        margin: 0;
+        padding: 16px 20px;
+        background: var(--vscode-editor-background);
+        color: var(--vscode-foreground);
+        font-family: var(--vscode-font-family);
+        font-size: var(--vscode-font-size);
+      }
+      h2 { font-size: 1.2em; margin: 0 0 4px; }
+      #summary { opacity: 0.8; margin-bottom: 16px; }
+      .check {
+        display: grid;
+        grid-template-columns: 24px 1fr;
+        gap: 4px 8px;
+        padding: 10px 0;
+        border-top: 1px solid rgba(127, 127, 127, 0.2);
+      }
+      .icon { font-weight: bold; text-align: center; }
+      .ok .icon { color: #2ea043; }
+      .warning .icon { color: #d29922; }
+      .error .icon { color: #f85149; }
+      .info .icon { color: var(--vscode-textLink-foreground); }
+      .title { font-weight: 600; }
+      pre {
+        grid-column: 2;
+        margin: 0;
+        white-space: pre-wrap;
+        font-family: var(--vscode-editor-font-family);
+        font-size: 12px;
+        opacity: 0.85;
+      }
+      .fixes { grid-column: 2; display: flex; flex-wrap: wrap; gap: 6px; }
+      button {
+        background: var(--vscode-button-secondaryBackground);
+        color: var(--vscode-button-secondaryForeground);
+        border: none;
+        border-radius: 2px;
+        padding: 4px 10px;
+        cursor: pointer;
+      }
+      button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+      button:disabled { opacity: 0.5; cursor: default; }
+      .fixes button, #recheck {
+        background: var(--vscode-button-background);
+        color: var(--vscode-button-foreground);
+      }
+    </style>
+  </head>
+  <body>
+    <h2>sv2svg Toolchain</h2>
+    <div id="summary"></div>
+    <div id="checks"></div>
+    <p><button id="recheck" disabled>Run Again</button></p>
+    <script nonce="${nonce}">
+      (function() {
+        const vscode = acquireVsCodeApi();
+        const summary = document.getElementById('summary');
+        const list = document.getElementById('checks');
+        const recheck = document.getElementById('recheck');
+        const ICONS = { ok: '✓', warning: '!', error: '✗', info: 'i' };
+
+        function setBusy(busy) {
+          recheck.disabled = busy;
+          for (const b of list.querySelectorAll('button')) b.disabled = busy;
+        }
+
+        function showReport(checks) {
+          const failed = checks.filter(c => c.status === 'error').length;
+          summary.textContent = failed ? failed + ' check(s) failed.' : 'sv2svg is ready to render.';
+          list.replaceChildren();
+          checks.forEach((check, i) => {
+            const row = document.createElement('div');
+            row.className = 'check ' + check.status;
+            const icon = document.createElement('span');
+            icon.className = 'icon';
+            icon.textContent = ICONS[check.status] || '';
+            const title = document.createElement('span');
+            title.className = 'title';
+            title.textContent = check.title;
+            const detail = document.createElement('pre');
+            detail.textContent = check.detail;
+            row.append(icon, title, detail);
+            if (check.fixes.length) {
+              const fixes = document.createElement('div');
+              fixes.className = 'fixes';
+              check.fixes.forEach((label, j) => {
+                const b = document.createElement('button');
+                b.textContent = label;
+                b.addEventListener('click', () => {
+                  setBusy(true);
+                  vscode.postMessage({ type: 'fix', check: i, fix: j });
+                });
+                fixes.appendChild(b);
+              });
+              row.appendChild(fixes);
+            }
+            list.appendChild(row);
+          });
+          setBusy(false);
+        }
+
+        recheck.addEventListener('click', () => vscode.postMessage({ type: 'recheck' }));
+
+        window.addEventListener('message', (event) => {
+          const msg = event.data;
+          if (!msg) return;
+          if (msg.type === 'checking') {
+            summary.textContent = 'Checking ' + msg.commandLine + '…';
+            setBusy(true);
+          } else if (msg.type === 'report') {
+            showReport(msg.checks || []);
           }
         });
       })();
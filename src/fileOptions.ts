@@ -0,0 +1,96 @@
+// Per-file render option sources: `// sv2svg: ...` comments in a file's header and
+// `.sv2svg.json` files with glob-matched overrides for the files below their folder.
+// Options are returned as "key=value flag" text, the same syntax as Markdown fences.
+
+export const FOLDER_CONFIG_FILE = '.sv2svg.json';
+
+export type FolderConfigRule = {
+  // Globs relative to the config file's folder; a pattern without '/' matches file names at any depth
+  files: string[];
+  options: string;
+};
+
+export type FolderConfig = {
+  // Applies to every file below the folder, before the matching rules
+  options?: string;
+  overrides: FolderConfigRule[];
+};
+
+// Only comments before the first design unit count as the file's header
+const DESIGN_UNIT = /^\s*(?:module|macromodule|interface|program|package)\b/m;
+const LINE_DIRECTIVE = /\/\/\s*sv2svg:([^\n]*)/g;
+const BLOCK_DIRECTIVE = /\/\*\s*sv2svg:([\s\S]*?)\*\//g;
+
+export function parseMagicComments(text: string): string | undefined {
+  const unit = DESIGN_UNIT.exec(text);
+  const header = unit ? text.slice(0, unit.index) : text;
+  const found: { offset: number; text: string }[] = [];
+  for (const re of [LINE_DIRECTIVE, BLOCK_DIRECTIVE]) {
+    re.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(header)) !== null) found.push({ offset: m.index, text: m[1].trim() });
+  }
+  const joined = found.sort((a, b) => a.offset - b.offset).map(f => f.text).filter(Boolean).join(' ');
+  return joined || undefined;
+}
+
+// Throws on malformed JSON; entries that are not shaped like rules are skipped
+export function parseFolderConfig(json: string): FolderConfig {
+  const raw = JSON.parse(json);
+  const config: FolderConfig = { overrides: [] };
+  if (!raw || typeof raw !== 'object') return config;
+  config.options = optionsText(raw.options);
+  for (const rule of Array.isArray(raw.overrides) ? raw.overrides : []) {
+    const files = (Array.isArray(rule?.files) ? rule.files : [rule?.files]).filter((f: unknown): f is string => typeof f === 'string' && f !== '');
+    const options = optionsText(rule?.options);
+    if (files.length && options) config.overrides.push({ files, options });
+  }
+  return config;
+}
+
+// Options may be written as an object ({ "orientation": "vertical" }) or as "key=value" text
+export function optionsText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const parts = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => ['string', 'number', 'boolean'].includes(typeof v))
+    .map(([k, v]) => `${k}=${typeof v === 'string' ? JSON.stringify(v) : String(v)}`);
+  return parts.length ? parts.join(' ') : undefined;
+}
+
+export function matchesGlob(pattern: string, relPath: string): boolean {
+  const target = pattern.includes('/') ? relPath : relPath.slice(relPath.lastIndexOf('/') + 1);
+  return globToRegExp(pattern.replace(/^\.?\//, '')).test(target);
+}
+
+function globToRegExp(glob: string): RegExp {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      // "**/" matches zero or more directories, a trailing "**" everything below
+      const slash = glob[i + 2] === '/';
+      re += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (c === '*') {
+      re += '[^/]*';
+    } else if (c === '?') {
+      re += '[^/]';
+    } else if (c === '{') {
+      const close = glob.indexOf('}', i);
+      if (close < 0) {
+        re += '\\{';
+        continue;
+      }
+      re += `(?:${glob.slice(i + 1, close).split(',').map(escapeRegExp).join('|')})`;
+      i = close;
+    } else {
+      re += escapeRegExp(c);
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
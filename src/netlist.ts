@@ -0,0 +1,411 @@
+// Connectivity model built from the source the schematic is rendered from: which nets each
+// driver (continuous assign, always block, gate primitive, module instance) reads and writes.
+// Like svSource this is not an elaborator. Ports of modules declared in other files have no
+// known direction, so their connections count as both inputs and outputs.
+
+import { DIRECTIONS, GATE_PRIMITIVES, NET_TYPES, Token, indexSource, isIdentifier, isKeyword, labelToNames, tokenize } from './svSource';
+
+export type NetlistNodeKind = 'assign' | 'procedural' | 'gate' | 'instance';
+
+export type NetlistNode = {
+  kind: NetlistNodeKind;
+  // Gate or instance name; assigns, always blocks and unnamed gates have none
+  name?: string;
+  module?: string;
+  offset: number;
+  inputs: string[];
+  outputs: string[];
+};
+
+export type Netlist = {
+  nodes: NetlistNode[];
+  // Indices into nodes of the drivers and loads of each net
+  drivers: Map<string, number[]>;
+  loads: Map<string, number[]>;
+};
+
+export type TraceMode = 'net' | 'fanin' | 'fanout';
+
+export type Trace = {
+  root: string;
+  nets: string[];
+  // Names of the gates and instances in the cone
+  nodes: string[];
+  // Levels of drivers (fan-in) or loads (fan-out) followed
+  depth: number;
+  // The depth limit stopped the walk before the cone ended
+  truncated: boolean;
+};
+
+type PortDirection = 'input' | 'output' | 'inout';
+
+type ModulePorts = {
+  // Declaration order, used for positional connections
+  order: string[];
+  directions: Map<string, PortDirection>;
+};
+
+const STATEMENT_END = new Set([';', 'begin', 'end', 'else', ')', ':', 'endgenerate', 'generate']);
+// Names that are not nets: parameters, loop variables and other integer variables
+const NON_NET_DECLARATIONS = new Set(['parameter', 'localparam', 'genvar', 'integer', 'int']);
+
+// Netlist of one module, or of every module in the file when none is given
+export function buildNetlist(text: string, module?: string): Netlist {
+  const index = indexSource(text);
+  const tokens = tokenize(text);
+  const ports = new Map<string, ModulePorts>();
+  for (const sym of index.symbols) {
+    if (sym.kind !== 'port' || !sym.module) continue;
+    const entry: ModulePorts = ports.get(sym.module) ?? { order: [], directions: new Map() };
+    const direction = /^(input|output|inout)\b/.exec(text.slice(sym.stmtStart, sym.stmtStart + 6))?.[1] as PortDirection | undefined;
+    if (!entry.directions.has(sym.name)) entry.order.push(sym.name);
+    entry.directions.set(sym.name, direction ?? 'inout');
+    ports.set(sym.module, entry);
+  }
+
+  const nodes: NetlistNode[] = [];
+  for (const mod of index.modules) {
+    if (module && mod.name !== module) continue;
+    const body = tokens.filter(t => t.offset >= mod.offset && t.offset < mod.end);
+    nodes.push(...moduleNodes(body, mod.name, ports));
+  }
+
+  const drivers = new Map<string, number[]>();
+  const loads = new Map<string, number[]>();
+  const link = (map: Map<string, number[]>, net: string, i: number) => {
+    const list = map.get(net) ?? [];
+    if (!list.includes(i)) list.push(i);
+    map.set(net, list);
+  };
+  nodes.forEach((node, i) => {
+    node.outputs.forEach(net => link(drivers, net, i));
+    node.inputs.forEach(net => link(loads, net, i));
+  });
+  return { nodes, drivers, loads };
+}
+
+// Follow the first label that names a net, gate or instance. A depth of 0 means no limit.
+export function traceNet(netlist: Netlist, labels: string[], mode: TraceMode, maxDepth: number): Trace | undefined {
+  for (const label of labels) {
+    for (const name of labelToNames(label)) {
+      if (netlist.drivers.has(name) || netlist.loads.has(name)) return walk(netlist, name, [name], [], mode, maxDepth);
+      const node = netlist.nodes.findIndex(n => n.name === name);
+      if (node >= 0) {
+        const n = netlist.nodes[node];
+        const start = mode === 'fanin' ? n.inputs : mode === 'fanout' ? n.outputs : [...n.inputs, ...n.outputs];
+        return walk(netlist, name, start, [node], mode, maxDepth);
+      }
+    }
+  }
+  return undefined;
+}
+
+function walk(netlist: Netlist, root: string, startNets: string[], startNodes: number[], mode: TraceMode, maxDepth: number): Trace {
+  const nets = new Set(startNets);
+  const nodes = new Set(startNodes);
+  if (mode === 'net') {
+    // The net together with the gates and instances it connects
+    for (const net of startNets) [...netlist.drivers.get(net) ?? [], ...netlist.loads.get(net) ?? []].forEach(i => nodes.add(i));
+  }
+  let frontier = [...nets];
+  let depth = startNodes.length ? 1 : 0;
+  if (mode !== 'net') {
+    const edges = mode === 'fanin' ? netlist.drivers : netlist.loads;
+    while (frontier.length && (maxDepth <= 0 || depth < maxDepth)) {
+      const next: string[] = [];
+      let grew = false;
+      for (const net of frontier) {
+        for (const i of edges.get(net) ?? []) {
+          if (nodes.has(i)) continue;
+          nodes.add(i);
+          grew = true;
+          for (const n of mode === 'fanin' ? netlist.nodes[i].inputs : netlist.nodes[i].outputs) {
+            if (!nets.has(n)) {
+              nets.add(n);
+              next.push(n);
+            }
+          }
+        }
+      }
+      if (!grew) {
+        frontier = [];
+        break;
+      }
+      depth++;
+      frontier = next;
+    }
+  }
+  const edges = mode === 'fanin' ? netlist.drivers : netlist.loads;
+  const truncated = mode !== 'net' && frontier.some(net => (edges.get(net) ?? []).some(i => !nodes.has(i)));
+  return {
+    root,
+    nets: [...nets],
+    nodes: [...nodes].map(i => netlist.nodes[i].name).filter((n): n is string => !!n),
+    depth,
+    truncated,
+  };
+}
+
+function moduleNodes(tokens: Token[], module: string, ports: Map<string, ModulePorts>): NetlistNode[] {
+  const nodes: NetlistNode[] = [];
+  const ignored = new Set<string>();
+
+  // Index of the matching closing bracket, or the last token if unbalanced
+  const skipGroup = (i: number): number => {
+    const open = tokens[i].text;
+    const close = open === '(' ? ')' : open === '[' ? ']' : '}';
+    let depth = 0;
+    for (let j = i; j < tokens.length; j++) {
+      if (tokens[j].text === open) depth++;
+      else if (tokens[j].text === close && --depth === 0) return j;
+    }
+    return tokens.length - 1;
+  };
+
+  // The closing ';', or the bracket closing a group the statement is in, e.g. a for header
+  const statementEnd = (i: number): number => {
+    let depth = 0;
+    for (let j = i; j < tokens.length; j++) {
+      const t = tokens[j].text;
+      if (t === '(' || t === '[' || t === '{') depth++;
+      else if ((t === ')' || t === ']' || t === '}') && --depth < 0) return j;
+      else if (t === ';' && depth === 0) return j;
+    }
+    return tokens.length - 1;
+  };
+
+  // Split [from, to) at commas outside brackets
+  const splitList = (from: number, to: number): [number, number][] => {
+    const parts: [number, number][] = [];
+    let depth = 0;
+    let start = from;
+    for (let j = from; j < to; j++) {
+      const t = tokens[j].text;
+      if (t === '(' || t === '[' || t === '{') depth++;
+      else if (t === ')' || t === ']' || t === '}') depth--;
+      else if (t === ',' && depth === 0) {
+        parts.push([start, j]);
+        start = j + 1;
+      }
+    }
+    if (start < to) parts.push([start, to]);
+    return parts;
+  };
+
+  const findAt0 = (from: number, to: number, texts: string[]): number => {
+    let depth = 0;
+    for (let j = from; j < to; j++) {
+      const t = tokens[j].text;
+      if (t === '(' || t === '[' || t === '{') depth++;
+      else if (t === ')' || t === ']' || t === '}') depth--;
+      else if (depth === 0 && texts.includes(t)) return j;
+    }
+    return -1;
+  };
+
+  // Net names read in [from, to): identifiers that are not keywords, calls, members, package
+  // scopes, system tasks, parameters or loop variables
+  const netsIn = (from: number, to: number): string[] => {
+    const names: string[] = [];
+    for (let j = from; j < to; j++) {
+      const t = tokens[j].text;
+      if (!isIdentifier(t) || isKeyword(t) || ignored.has(t)) continue;
+      const prev = tokens[j - 1]?.text;
+      const next = tokens[j + 1]?.text;
+      if (prev === '.' || prev === '$' || prev === '::' || prev === '`' || next === '(' || next === '::') continue;
+      if (!names.includes(t)) names.push(t);
+    }
+    return names;
+  };
+
+  // Left-hand side of an assignment: the assigned names, and what its indices read
+  const lhs = (from: number, to: number): { outputs: string[]; inputs: string[] } => {
+    const outputs: string[] = [];
+    const inputs: string[] = [];
+    for (let j = from; j < to; j++) {
+      const t = tokens[j].text;
+      if (t === '[') {
+        const close = skipGroup(j);
+        inputs.push(...netsIn(j + 1, close));
+        j = close;
+        continue;
+      }
+      outputs.push(...netsIn(j, j + 1));
+    }
+    return { outputs, inputs };
+  };
+
+  const add = (kind: NetlistNodeKind, offset: number, inputs: string[], outputs: string[], name?: string) => {
+    if (!inputs.length && !outputs.length) return;
+    nodes.push({ kind, name, module, offset, inputs: [...new Set(inputs)], outputs: [...new Set(outputs)] });
+  };
+
+  // Parameters, genvars and integer variables first, so they are never mistaken for nets
+  for (let i = 0; i < tokens.length; i++) {
+    if (!NON_NET_DECLARATIONS.has(tokens[i].text)) continue;
+    for (let j = i + 1; j < tokens.length; j++) {
+      const t = tokens[j].text;
+      if (t === ';' || t === ')' || (t === ',' && NON_NET_DECLARATIONS.has(tokens[j + 1]?.text ?? ''))) break;
+      if (t === '[' || t === '(' || t === '{') { j = skipGroup(j); continue; }
+      if (t === '=') {
+        // Skip the value up to the next declarator
+        let depth = 0;
+        while (j + 1 < tokens.length) {
+          const n = tokens[j + 1].text;
+          if (n === '(' || n === '[' || n === '{') depth++;
+          else if (n === ')' || n === ']' || n === '}') { if (depth === 0) break; depth--; }
+          else if ((n === ',' || n === ';') && depth === 0) break;
+          j++;
+        }
+        continue;
+      }
+      if (isIdentifier(t) && !isKeyword(t)) ignored.add(t);
+    }
+  }
+
+  // Skip the module header
+  let i = tokens.findIndex(t => t.text === 'module');
+  i = i < 0 ? 0 : statementEnd(i) + 1;
+
+  for (; i < tokens.length; i++) {
+    const tok = tokens[i];
+    const t = tok.text;
+    const prev = tokens[i - 1]?.text;
+    const atStatementStart = prev === undefined || STATEMENT_END.has(prev);
+
+    if (t === 'function' || t === 'task') {
+      // Bodies of functions and tasks are not hardware of their own
+      const close = tokens.findIndex((x, j) => j > i && x.text === `end${t}`);
+      i = close < 0 ? tokens.length : close;
+      continue;
+    }
+
+    if (t === 'assign') {
+      const end = statementEnd(i);
+      for (const [from, to] of splitList(i + 1, end)) {
+        const eq = findAt0(from, to, ['=']);
+        if (eq < 0) continue;
+        const left = lhs(from, eq);
+        add('assign', tokens[from].offset, [...left.inputs, ...netsIn(eq + 1, to)], left.outputs);
+      }
+      i = end;
+      continue;
+    }
+
+    if ((NET_TYPES.has(t) || DIRECTIONS.has(t)) && atStatementStart) {
+      // Net declaration assignments: wire y = a & b;
+      const end = statementEnd(i);
+      for (const [from, to] of splitList(i + 1, end)) {
+        const eq = findAt0(from, to, ['=']);
+        if (eq < 0) continue;
+        const declared = netsIn(eq - 1, eq);
+        add('assign', tokens[from].offset, netsIn(eq + 1, to), declared);
+      }
+      i = end;
+      continue;
+    }
+
+    if ((t.startsWith('always') || t === 'initial') && atStatementStart) {
+      let j = i + 1;
+      if (tokens[j]?.text === '@') {
+        j++;
+        if (tokens[j]?.text === '(') j = skipGroup(j) + 1;
+        else j++;
+      }
+      const sensitivityEnd = j;
+      let end: number;
+      if (tokens[j]?.text === 'begin') {
+        let depth = 0;
+        end = tokens.length - 1;
+        for (let k = j; k < tokens.length; k++) {
+          if (tokens[k].text === 'begin') depth++;
+          else if (tokens[k].text === 'end' && --depth === 0) { end = k; break; }
+        }
+      } else {
+        end = statementEnd(j);
+      }
+      const outputs: string[] = [];
+      const inputs: string[] = netsIn(i + 1, sensitivityEnd);
+      for (let k = sensitivityEnd; k <= end; k++) {
+        const kt = tokens[k].text;
+        const kprev = tokens[k - 1]?.text;
+        const statementStart = k === sensitivityEnd || STATEMENT_END.has(kprev ?? '');
+        if (statementStart && isIdentifier(kt) && !isKeyword(kt)) {
+          const assign = findAt0(k, statementEnd(k), ['=', '<=']);
+          if (assign > k) {
+            const left = lhs(k, assign);
+            outputs.push(...left.outputs);
+            inputs.push(...left.inputs);
+            const stop = statementEnd(assign);
+            inputs.push(...netsIn(assign + 1, stop));
+            k = stop;
+            continue;
+          }
+        }
+        inputs.push(...netsIn(k, k + 1));
+      }
+      add('procedural', tok.offset, inputs, outputs);
+      i = end;
+      continue;
+    }
+
+    if (GATE_PRIMITIVES.has(t) && atStatementStart) {
+      const end = statementEnd(i);
+      let j = i + 1;
+      // Optional strength and delay
+      if (tokens[j]?.text === '(' && /^(strong|weak|pull|supply|highz)/.test(tokens[j + 1]?.text ?? '')) j = skipGroup(j) + 1;
+      if (tokens[j]?.text === '#') j = tokens[j + 1]?.text === '(' ? skipGroup(j + 1) + 1 : j + 2;
+      while (j < end) {
+        let name: string | undefined;
+        if (isIdentifier(tokens[j].text)) { name = tokens[j].text; j++; }
+        if (tokens[j]?.text === '[') j = skipGroup(j) + 1;
+        if (tokens[j]?.text !== '(') break;
+        const close = skipGroup(j);
+        const terminals = splitList(j + 1, close).map(([from, to]) => netsIn(from, to));
+        // buf and not drive every terminal but the last; the others drive only the first
+        const outputCount = t === 'buf' || t === 'not' ? Math.max(terminals.length - 1, 1) : 1;
+        add('gate', tokens[j].offset, terminals.slice(outputCount).flat(), terminals.slice(0, outputCount).flat(), name);
+        j = close + 1;
+        if (tokens[j]?.text === ',') j++;
+      }
+      i = end;
+      continue;
+    }
+
+    if (isIdentifier(t) && !isKeyword(t) && atStatementStart) {
+      // Module instantiation: Type [#(...)] name [dims] ( ... );
+      let j = i + 1;
+      if (tokens[j]?.text === '#' && tokens[j + 1]?.text === '(') j = skipGroup(j + 1) + 1;
+      const nameTok = tokens[j];
+      if (!nameTok || !isIdentifier(nameTok.text) || isKeyword(nameTok.text)) continue;
+      let k = j + 1;
+      if (tokens[k]?.text === '[') k = skipGroup(k) + 1;
+      if (tokens[k]?.text !== '(') continue;
+      const close = skipGroup(k);
+      const sub = ports.get(t);
+      const inputs: string[] = [];
+      const outputs: string[] = [];
+      const connect = (port: string | undefined, nets: string[]) => {
+        const direction = port ? sub?.directions.get(port) ?? 'inout' : 'inout';
+        if (direction !== 'output') inputs.push(...nets);
+        if (direction !== 'input') outputs.push(...nets);
+      };
+      splitList(k + 1, close).forEach(([from, to], position) => {
+        if (tokens[from].text !== '.') {
+          connect(sub?.order[position], netsIn(from, to));
+        } else if (tokens[from + 1]?.text === '*') {
+          // .* connects every port to the net of the same name
+          for (const port of sub?.order ?? []) connect(port, [port]);
+        } else {
+          const port = tokens[from + 1]?.text;
+          if (!port) return;
+          connect(port, tokens[from + 2]?.text === '(' ? netsIn(from + 3, skipGroup(from + 2)) : [port]);
+        }
+      });
+      add('instance', nameTok.offset, inputs, outputs, nameTok.text);
+      i = statementEnd(close);
+      continue;
+    }
+  }
+  return nodes;
+}
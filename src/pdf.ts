@@ -0,0 +1,92 @@
+// Minimal single-page PDF writer that places one JPEG image on a page.
+
+export type PageSize = 'fit' | 'A4' | 'A3' | 'Letter' | 'Legal';
+
+export type ImagePdfOptions = {
+  // JPEG bytes and pixel dimensions of the image
+  jpeg: Buffer;
+  width: number;
+  height: number;
+  // Pixels per CSS pixel the image was rasterized at (used to size 'fit' pages)
+  scale: number;
+  pageSize: PageSize;
+  marginMm: number;
+};
+
+// Portrait page dimensions in PDF points (1/72 inch)
+const PAGE_SIZES: Record<Exclude<PageSize, 'fit'>, [number, number]> = {
+  A4: [595.28, 841.89],
+  A3: [841.89, 1190.55],
+  Letter: [612, 792],
+  Legal: [612, 1008],
+};
+
+const MM_TO_PT = 72 / 25.4;
+const CSS_PX_TO_PT = 72 / 96;
+
+export function createImagePdf(opts: ImagePdfOptions): Buffer {
+  const margin = Math.max(0, opts.marginMm) * MM_TO_PT;
+  // Natural size of the diagram in points
+  const naturalW = (opts.width / opts.scale) * CSS_PX_TO_PT;
+  const naturalH = (opts.height / opts.scale) * CSS_PX_TO_PT;
+
+  let pageW: number;
+  let pageH: number;
+  if (opts.pageSize === 'fit') {
+    pageW = naturalW + 2 * margin;
+    pageH = naturalH + 2 * margin;
+  } else {
+    [pageW, pageH] = PAGE_SIZES[opts.pageSize];
+    // Landscape for wide diagrams
+    if (opts.width > opts.height) [pageW, pageH] = [pageH, pageW];
+  }
+
+  // Fit inside the margins without upscaling past the natural size, centered
+  const availW = Math.max(1, pageW - 2 * margin);
+  const availH = Math.max(1, pageH - 2 * margin);
+  const fit = Math.min(availW / naturalW, availH / naturalH, opts.pageSize === 'fit' ? 1 : Infinity);
+  const drawW = naturalW * fit;
+  const drawH = naturalH * fit;
+  const x = (pageW - drawW) / 2;
+  const y = (pageH - drawH) / 2;
+
+  const n = (v: number) => Number(v.toFixed(2)).toString();
+  const content = `q ${n(drawW)} 0 0 ${n(drawH)} ${n(x)} ${n(y)} cm /Im0 Do Q`;
+
+  const objects: Buffer[] = [
+    Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'),
+    Buffer.from('<< /Type /Pages /Kids [3 0 R] /Count 1 >>'),
+    Buffer.from(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${n(pageW)} ${n(pageH)}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`),
+    Buffer.concat([
+      Buffer.from(`<< /Type /XObject /Subtype /Image /Width ${opts.width} /Height ${opts.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${opts.jpeg.length} >>\nstream\n`),
+      opts.jpeg,
+      Buffer.from('\nendstream'),
+    ]),
+    Buffer.from(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`),
+  ];
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(offset);
+    const obj = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), body, Buffer.from('\nendobj\n')]);
+    chunks.push(obj);
+    offset += obj.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+    '',
+  ].join('\n');
+  chunks.push(Buffer.from(xref));
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,114 @@
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+// Content-addressed SVG cache: an in-memory LRU, optionally backed by a directory
+// of <key>.svg files. Both tiers are bounded by entry count and total size.
+
+export type RenderCacheOptions = {
+  maxEntries: number;
+  maxBytes: number;
+  // Directory for persisted entries; memory only when unset
+  dir?: string;
+};
+
+export type RenderCache = {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, svg: string): Promise<void>;
+  clear(): Promise<void>;
+  stats(): { entries: number; bytes: number };
+};
+
+export function cacheKey(parts: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+export function createRenderCache(opts: RenderCacheOptions): RenderCache {
+  const memory = new Map<string, string>();
+  let bytes = 0;
+
+  const evict = () => {
+    // Map iteration order is insertion order, so the first key is the least recently used
+    while (memory.size > 0 && (memory.size > opts.maxEntries || bytes > opts.maxBytes)) {
+      const oldest = memory.keys().next().value as string;
+      bytes -= Buffer.byteLength(memory.get(oldest)!);
+      memory.delete(oldest);
+    }
+  };
+
+  const remember = (key: string, svg: string) => {
+    const prev = memory.get(key);
+    if (prev !== undefined) {
+      bytes -= Buffer.byteLength(prev);
+      memory.delete(key);
+    }
+    memory.set(key, svg);
+    bytes += Buffer.byteLength(svg);
+    evict();
+  };
+
+  const fileFor = (key: string) => path.join(opts.dir!, `${key}.svg`);
+
+  const pruneDisk = async () => {
+    if (!opts.dir) return;
+    const names = (await fs.promises.readdir(opts.dir)).filter(n => n.endsWith('.svg'));
+    const files = await Promise.all(names.map(async n => {
+      const p = path.join(opts.dir!, n);
+      const st = await fs.promises.stat(p).catch(() => undefined);
+      return { p, size: st?.size ?? 0, mtime: st?.mtimeMs ?? 0 };
+    }));
+    files.sort((a, b) => b.mtime - a.mtime);
+    let total = 0;
+    for (let i = 0; i < files.length; i++) {
+      total += files[i].size;
+      if (i >= opts.maxEntries || total > opts.maxBytes) {
+        await fs.promises.unlink(files[i].p).catch(() => {});
+      }
+    }
+  };
+
+  return {
+    async get(key) {
+      const hit = memory.get(key);
+      if (hit !== undefined) {
+        remember(key, hit);
+        return hit;
+      }
+      if (!opts.dir) return undefined;
+      try {
+        const svg = await fs.promises.readFile(fileFor(key), 'utf8');
+        // Touch the file so disk pruning keeps recently used entries
+        const now = new Date();
+        fs.promises.utimes(fileFor(key), now, now).catch(() => {});
+        remember(key, svg);
+        return svg;
+      } catch {
+        return undefined;
+      }
+    },
+
+    async set(key, svg) {
+      remember(key, svg);
+      if (!opts.dir) return;
+      try {
+        await fs.promises.mkdir(opts.dir, { recursive: true });
+        await fs.promises.writeFile(fileFor(key), svg, 'utf8');
+        await pruneDisk();
+      } catch {
+        // Persistence is best effort; the memory tier still has the entry
+      }
+    },
+
+    async clear() {
+      memory.clear();
+      bytes = 0;
+      if (!opts.dir) return;
+      const names = await fs.promises.readdir(opts.dir).catch(() => [] as string[]);
+      await Promise.all(names.filter(n => n.endsWith('.svg')).map(n => fs.promises.unlink(path.join(opts.dir!, n)).catch(() => {})));
+    },
+
+    stats() {
+      return { entries: memory.size, bytes };
+    },
+  };
+}
@@ -0,0 +1,176 @@
+// Sanitize renderer output before it is embedded in a webview. The SVG comes from an external
+// tool and carries user-controlled text (module, signal and instance names), so anything that
+// can execute or load content is removed: scripts, foreignObject, event handler attributes,
+// javascript: and external URLs, CSS imports and animations that rewrite links or handlers.
+// Markup the scanner does not recognize is escaped rather than passed through.
+
+// Elements dropped together with their content
+const DROPPED_ELEMENTS = new Set([
+  'script', 'foreignobject', 'iframe', 'object', 'embed', 'audio', 'video', 'canvas', 'handler', 'listener', 'base', 'meta', 'link',
+]);
+const ANIMATION_ELEMENTS = new Set(['set', 'animate', 'animatecolor', 'animatemotion', 'animatetransform']);
+// Local names, so xlink:href and any other prefixed href count
+const URL_ATTRIBUTES = new Set(['href', 'src', 'action', 'formaction']);
+// Raster images inlined as data URIs are harmless; everything else must be a same-document reference
+const SAFE_DATA_URL = /^data:image\/(?:png|jpe?g|gif|webp);base64,[a-z0-9+/=\s]*$/i;
+
+const TAG = /<(\/?)([A-Za-z][\w:.-]*)((?:\s+[^\s"'=<>/`]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s"'=<>/`]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s"'=<>`]+))?/g;
+
+export function sanitizeSvg(svg: string): string {
+  let out = '';
+  // Name of the dropped element being skipped and how deeply it is nested in itself
+  let skipping: string | undefined;
+  let depth = 0;
+  let inStyle = false;
+  let i = 0;
+
+  const emitText = (text: string) => {
+    if (skipping) return;
+    out += inStyle ? sanitizeCss(text) : text;
+  };
+
+  while (i < svg.length) {
+    const lt = svg.indexOf('<', i);
+    if (lt < 0) {
+      emitText(svg.slice(i));
+      break;
+    }
+    emitText(svg.slice(i, lt));
+
+    if (svg.startsWith('<!--', lt)) {
+      const end = svg.indexOf('-->', lt + 4);
+      i = end < 0 ? svg.length : end + 3;
+      continue;
+    }
+    if (svg.startsWith('<![CDATA[', lt)) {
+      const end = svg.indexOf(']]>', lt + 9);
+      const text = svg.slice(lt + 9, end < 0 ? svg.length : end);
+      // Escaped so the text cannot close <style> or open an element once the wrapper is gone
+      if (!skipping) out += escapeText(inStyle ? sanitizeCss(text) : text);
+      i = end < 0 ? svg.length : end + 3;
+      continue;
+    }
+    if (svg.startsWith('<!', lt) || svg.startsWith('<?', lt)) {
+      // Doctype (and its entity declarations) and processing instructions such as xml-stylesheet
+      let end = svg.indexOf('>', lt);
+      const subset = svg.indexOf('[', lt);
+      if (svg.startsWith('<!', lt) && subset >= 0 && subset < end) {
+        const close = svg.indexOf(']', subset);
+        end = close < 0 ? -1 : svg.indexOf('>', close);
+      }
+      i = end < 0 ? svg.length : end + 1;
+      continue;
+    }
+
+    TAG.lastIndex = lt;
+    const m = TAG.exec(svg);
+    if (!m) {
+      if (!skipping) out += '&lt;';
+      i = lt + 1;
+      continue;
+    }
+    i = TAG.lastIndex;
+    const [, closing, rawName, rawAttrs, selfClosing] = m;
+    const name = rawName.toLowerCase();
+    // Blocked names are matched without their namespace prefix: <s:script> is a script when s is bound to SVG
+    const local = localName(name);
+
+    if (skipping) {
+      if (name === skipping && !selfClosing) depth += closing ? -1 : 1;
+      if (depth === 0) skipping = undefined;
+      continue;
+    }
+    if (DROPPED_ELEMENTS.has(local)) {
+      if (!closing && !selfClosing) {
+        skipping = name;
+        depth = 1;
+      }
+      continue;
+    }
+    if (closing) {
+      if (local === 'style') inStyle = false;
+      out += `</${rawName}>`;
+      continue;
+    }
+
+    const attrs = sanitizeAttributes(rawAttrs);
+    if (attrs === undefined) {
+      // An animation targeting a link or handler: drop it with its content
+      if (!selfClosing) {
+        skipping = name;
+        depth = 1;
+      }
+      continue;
+    }
+    if (local === 'style' && !selfClosing) inStyle = true;
+    out += `<${rawName}${attrs}${selfClosing ? '/' : ''}>`;
+  }
+  return out;
+}
+
+// Rebuilt attribute text, or undefined when the element must be dropped entirely
+function sanitizeAttributes(raw: string): string | undefined {
+  let out = '';
+  ATTRIBUTE.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = ATTRIBUTE.exec(raw)) !== null) {
+    const name = m[1];
+    const lower = name.toLowerCase();
+    const local = localName(lower);
+    const quoted = m[2];
+    const value = quoted === undefined ? '' : unquote(quoted);
+    const decoded = decodeEntities(value).replace(/[\u0000- ]+/g, '').toLowerCase();
+
+    if (local.startsWith('on')) continue;
+    if (local === 'attributename' && (/^on/.test(localName(decoded)) || URL_ATTRIBUTES.has(localName(decoded)))) return undefined;
+    if (URL_ATTRIBUTES.has(local) && !(decoded.startsWith('#') || SAFE_DATA_URL.test(value.trim()))) continue;
+    if (/(?:java|vb)script:/.test(decoded)) continue;
+    if (local === 'style') {
+      out += ` style="${escapeAttribute(sanitizeCss(value))}"`;
+      continue;
+    }
+    // Presentation attributes such as fill="url(#grad)" may reference paint servers in this document only
+    if (/url\s*\(/i.test(value) && sanitizeCss(value) !== value) continue;
+    out += quoted === undefined ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`;
+  }
+  return out;
+}
+
+// Remove @import rules, non-fragment url() references and legacy script hooks from CSS text
+function sanitizeCss(css: string): string {
+  return css
+    .replace(/@import[^;]*;?/gi, '')
+    .replace(/url\s*\(\s*(['"]?)(.*?)\1\s*\)/gi, (whole, _q: string, target: string) => target.trim().startsWith('#') ? whole : 'none')
+    .replace(/expression\s*\(|-moz-binding|behavior\s*:/gi, '');
+}
+
+// "s:script" -> "script"
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+function unquote(value: string): string {
+  return /^["']/.test(value) ? value.slice(1, -1) : value;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);?/gi, (_, h: string) => codePoint(parseInt(h, 16)))
+    .replace(/&#(\d+);?/g, (_, d: string) => codePoint(Number(d)))
+    .replace(/&colon;/gi, ':')
+    .replace(/&tab;|&newline;/gi, '');
+}
+
+// Out-of-range references decode to nothing instead of throwing
+function codePoint(value: number): string {
+  return value <= 0x10ffff ? String.fromCodePoint(value) : '';
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&(?![a-z]+;|#\d+;|#x[0-9a-f]+;)/gi, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
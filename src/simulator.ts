@@ -0,0 +1,906 @@
+// Three-valued (0/1/X) evaluator for combinational SystemVerilog: continuous assigns, net
+// declaration assignments, gate primitives and instances of modules declared in the same file.
+// Procedural blocks, generate constructs and function calls are reported as unsupported and
+// the nets they drive stay X. Z is treated as X, and signedness is ignored.
+
+import { GATE_PRIMITIVES, NET_TYPES, Token, indexSource, isIdentifier, isKeyword, tokenize } from './svSource';
+
+export type LogicValue = '0' | '1' | 'x';
+
+export type SimPort = {
+  name: string;
+  direction: 'input' | 'output' | 'inout';
+  // Declared range, e.g. [7:0]; 0 and 0 for a scalar
+  msb: number;
+  lsb: number;
+  width: number;
+};
+
+export type SimModel = {
+  module: string;
+  ports: SimPort[];
+  nets: Map<string, Range>;
+  // In dependency order, so that without combinational loops a single pass settles
+  drivers: Driver[];
+  acyclic: boolean;
+  // Statements the evaluator skipped, with their line; the nets they drive stay X
+  unsupported: string[];
+};
+
+export type SimResult = {
+  // Every port and net, most significant bit first, e.g. { a: '1', sum: '01x1' }
+  values: Record<string, string>;
+  // False when a combinational loop kept changing
+  settled: boolean;
+};
+
+type Range = { msb: number; lsb: number };
+
+// Bits are stored least significant first
+type Bits = LogicValue[];
+
+type Expr =
+  | { kind: 'const'; bits: Bits }
+  // '0, '1 and 'x fill whatever width the context asks for
+  | { kind: 'fill'; value: LogicValue }
+  // Declared indices read, least significant first; none for the whole net
+  | { kind: 'ref'; name: string; indices?: number[] }
+  | { kind: 'unary'; op: string; arg: Expr }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr }
+  | { kind: 'cond'; test: Expr; then: Expr; otherwise: Expr }
+  | { kind: 'concat'; parts: Expr[]; count: number };
+
+type Driver =
+  | { kind: 'assign'; target: Expr; value: Expr }
+  | { kind: 'gate'; type: string; outputs: Expr[]; inputs: Expr[] }
+  | { kind: 'instance'; model: SimModel; inputs: [string, Expr][]; outputs: [string, Expr][] };
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1, '&&': 2, '|': 3, '^': 4, '~^': 4, '^~': 4, '&': 5,
+  '==': 6, '!=': 6, '===': 6, '!==': 6, '<': 7, '<=': 7, '>': 7, '>=': 7,
+  '<<': 8, '>>': 8, '+': 9, '-': 9,
+};
+const UNARY_OPERATORS = new Set(['!', '~', '&', '|', '^', '~&', '~|', '~^', '^~', '-', '+']);
+const DECLARATION_SKIPPED = new Set(['signed', 'unsigned', 'var', 'wire', 'logic', 'reg', 'bit']);
+// Widest vector, literal, replication or intermediate value the evaluator allocates
+const MAX_WIDTH = 4096;
+
+// Model of the given module, or of the file's top module (one no other module instantiates)
+export function buildSimModel(text: string, module?: string): SimModel | undefined {
+  const index = indexSource(text);
+  const tokens = tokenize(text);
+  const lineOf = (offset: number) => text.slice(0, offset).split('\n').length;
+  const bodies = new Map(index.modules.map(m => [m.name, tokens.filter(t => t.offset >= m.offset && t.offset < m.end)]));
+  const models = new Map<string, SimModel>();
+
+  const build = (name: string, stack: string[]): SimModel => {
+    const cached = models.get(name);
+    if (cached) return cached;
+    const model = parseModule(bodies.get(name) ?? [], name, lineOf, (type) => {
+      if (!bodies.has(type)) throw new Error(`module ${type} is not declared in this file`);
+      if (stack.includes(type)) throw new Error(`module ${type} instantiates itself`);
+      return build(type, [...stack, type]);
+    });
+    models.set(name, model);
+    return model;
+  };
+
+  let top = module;
+  if (!top) {
+    const instantiated = new Set(tokens
+      .filter((t, i) => bodies.has(t.text) && tokens[i - 1]?.text !== 'module' && (tokens[i + 1]?.text === '#' || (isIdentifier(tokens[i + 1]?.text ?? '') && !isKeyword(tokens[i + 1].text))))
+      .map(t => t.text));
+    top = index.modules.find(m => !instantiated.has(m.name))?.name ?? index.modules[0]?.name;
+  }
+  return top && bodies.has(top) ? build(top, [top]) : undefined;
+}
+
+// Evaluate the model for the given input values (most significant bit first). Inputs that are
+// missing or malformed start at 0.
+export function simulate(model: SimModel, inputs: Record<string, string>): SimResult {
+  const given = new Map<string, Bits>();
+  for (const port of model.ports) {
+    if (port.direction !== 'input') continue;
+    const text = /^[01xXzZ]+$/.test(inputs[port.name] ?? '') ? inputs[port.name] : '0';
+    given.set(port.name, resize(parseBits(text), port.width));
+  }
+  const { values, settled } = run(model, given);
+  const out: Record<string, string> = {};
+  values.forEach((bits, name) => { out[name] = formatBits(bits); });
+  return { values: out, settled };
+}
+
+// Every combination of the inputs as CSV lines, one column per bit: the header, then one line per
+// row, computed as they are read. Throws when the inputs have more than maxInputBits bits together.
+export function truthTable(model: SimModel, maxInputBits: number): { rows: number; lines: Generator<string, void> } {
+  const inputs = model.ports.filter(p => p.direction === 'input');
+  const outputs = model.ports.filter(p => p.direction !== 'input');
+  const inputBits = inputs.reduce((n, p) => n + p.width, 0);
+  if (inputBits > maxInputBits) {
+    throw new Error(`${model.module} has ${inputBits} input bits; truth tables are limited to ${maxInputBits} (${2 ** maxInputBits} rows).`);
+  }
+  return { rows: 2 ** inputBits, lines: truthTableLines(model, inputs, outputs, inputBits) };
+}
+
+function* truthTableLines(model: SimModel, inputs: SimPort[], outputs: SimPort[], inputBits: number): Generator<string, void> {
+  const columns = (ports: SimPort[]) => ports.flatMap(p => bitIndices(p).reverse().map(i => p.width > 1 ? `${p.name}[${i}]` : p.name));
+  yield [...columns(inputs), ...columns(outputs)].map(csvField).join(',');
+  for (let row = 0; row < 2 ** inputBits; row++) {
+    // The first input's most significant bit is the row number's most significant bit
+    const pattern = row.toString(2).padStart(inputBits, '0');
+    const given: Record<string, string> = {};
+    let at = 0;
+    for (const p of inputs) {
+      given[p.name] = pattern.slice(at, at + p.width);
+      at += p.width;
+    }
+    const { values } = simulate(model, given);
+    yield [...inputs, ...outputs].map(p => values[p.name].split('').join(',')).join(',');
+  }
+}
+
+function run(model: SimModel, inputs: Map<string, Bits>): { values: Map<string, Bits>; settled: boolean } {
+  const values = new Map<string, Bits>();
+  model.nets.forEach((range, name) => values.set(name, new Array(rangeWidth(range)).fill('x')));
+  inputs.forEach((bits, name) => values.set(name, bits));
+  const inputNames = new Set(inputs.keys());
+  // Combinational logic settles in at most one pass per driver; more means a loop
+  for (let pass = 0; pass <= model.drivers.length; pass++) {
+    let changed = false;
+    for (const driver of model.drivers) {
+      for (const [target, bits] of evaluateDriver(driver, model, values)) {
+        if (write(target, bits, model, values, inputNames)) changed = true;
+      }
+    }
+    if (!changed || model.acyclic) return { values, settled: true };
+  }
+  return { values, settled: false };
+}
+
+function evaluateDriver(driver: Driver, model: SimModel, values: Map<string, Bits>): [Expr, Bits][] {
+  if (driver.kind === 'assign') {
+    const width = Math.max(widthOf(driver.target, model), widthOf(driver.value, model));
+    return [[driver.target, evaluate(driver.value, width, model, values)]];
+  }
+  if (driver.kind === 'gate') {
+    const ins = driver.inputs.map(e => evaluate(e, 1, model, values)[0]);
+    const out = gateOutput(driver.type, ins);
+    return driver.outputs.map(e => [e, [out]]);
+  }
+  const given = new Map<string, Bits>();
+  for (const [port, expr] of driver.inputs) {
+    const width = driver.model.nets.get(port);
+    given.set(port, evaluate(expr, width ? rangeWidth(width) : 1, model, values));
+  }
+  const sub = run(driver.model, given).values;
+  return driver.outputs.map(([port, expr]) => [expr, sub.get(port) ?? ['x']]);
+}
+
+function gateOutput(type: string, ins: LogicValue[]): LogicValue {
+  // A gate without inputs drives nothing
+  if (ins.length === 0) return 'x';
+  switch (type) {
+    case 'and': return ins.reduce(and);
+    case 'nand': return not(ins.reduce(and));
+    case 'or': return ins.reduce(or);
+    case 'nor': return not(ins.reduce(or));
+    case 'xor': return ins.reduce(xor);
+    case 'xnor': return not(ins.reduce(xor));
+    case 'buf': return ins[ins.length - 1];
+    case 'not': return not(ins[ins.length - 1]);
+    // A disabled tristate drives Z, which reads as X
+    case 'bufif0': return ins[1] === '0' ? ins[0] : 'x';
+    case 'bufif1': return ins[1] === '1' ? ins[0] : 'x';
+    case 'notif0': return ins[1] === '0' ? not(ins[0]) : 'x';
+    case 'notif1': return ins[1] === '1' ? not(ins[0]) : 'x';
+  }
+  return 'x';
+}
+
+// Store bits into an lvalue; true when a value changed. Primary inputs are never overwritten.
+function write(target: Expr, bits: Bits, model: SimModel, values: Map<string, Bits>, inputs: Set<string>): boolean {
+  if (target.kind === 'concat') {
+    // The last part holds the least significant bits
+    let changed = false;
+    let at = 0;
+    for (const part of [...target.parts].reverse()) {
+      const width = widthOf(part, model);
+      if (write(part, bits.slice(at, at + width), model, values, inputs)) changed = true;
+      at += width;
+    }
+    return changed;
+  }
+  if (target.kind !== 'ref' || inputs.has(target.name)) return false;
+  const range = model.nets.get(target.name) ?? { msb: 0, lsb: 0 };
+  const current = values.get(target.name) ?? new Array(rangeWidth(range)).fill('x');
+  const offsets = target.indices ? target.indices.map(i => offsetOf(range, i)) : current.map((_, i) => i);
+  let changed = false;
+  offsets.forEach((offset, i) => {
+    if (offset < 0 || offset >= current.length) return;
+    const bit = bits[i] ?? '0';
+    if (current[offset] !== bit) {
+      current[offset] = bit;
+      changed = true;
+    }
+  });
+  values.set(target.name, current);
+  return changed;
+}
+
+// Self-determined width of an expression
+function widthOf(e: Expr, model: SimModel): number {
+  switch (e.kind) {
+    case 'const': return e.bits.length;
+    case 'fill': return 1;
+    case 'ref': return e.indices?.length ?? rangeWidth(model.nets.get(e.name) ?? { msb: 0, lsb: 0 });
+    case 'unary': return e.op === '~' || e.op === '-' || e.op === '+' ? widthOf(e.arg, model) : 1;
+    case 'binary':
+      if (['&&', '||', '==', '!=', '===', '!==', '<', '<=', '>', '>='].includes(e.op)) return 1;
+      if (e.op === '<<' || e.op === '>>') return widthOf(e.left, model);
+      return Math.max(widthOf(e.left, model), widthOf(e.right, model));
+    case 'cond': return Math.max(widthOf(e.then, model), widthOf(e.otherwise, model));
+    case 'concat': return e.count * e.parts.reduce((n, p) => n + widthOf(p, model), 0);
+  }
+}
+
+// Widest value evaluating the expression allocates
+function widestOf(e: Expr, model: SimModel): number {
+  const own = widthOf(e, model);
+  switch (e.kind) {
+    case 'unary': return Math.max(own, widestOf(e.arg, model));
+    case 'binary': return Math.max(own, widestOf(e.left, model), widestOf(e.right, model));
+    case 'cond': return Math.max(own, widestOf(e.test, model), widestOf(e.then, model), widestOf(e.otherwise, model));
+    case 'concat': return Math.max(own, ...e.parts.map(p => widestOf(p, model)));
+  }
+  return own;
+}
+
+// Names of the nets an expression reads or, as a target, writes
+function netNames(e: Expr, names: Set<string> = new Set()): Set<string> {
+  if (e.kind === 'ref') names.add(e.name);
+  else if (e.kind === 'unary') netNames(e.arg, names);
+  else if (e.kind === 'binary') { netNames(e.left, names); netNames(e.right, names); }
+  else if (e.kind === 'cond') { netNames(e.test, names); netNames(e.then, names); netNames(e.otherwise, names); }
+  else if (e.kind === 'concat') e.parts.forEach(p => netNames(p, names));
+  return names;
+}
+
+// Drivers sorted so that each follows the drivers of the nets it reads. Drivers on a loop keep
+// their source order after the rest.
+function sortDrivers(drivers: Driver[]): { drivers: Driver[]; acyclic: boolean } {
+  const exprs = (d: Driver): [Expr[], Expr[]] => d.kind === 'assign' ? [[d.value], [d.target]]
+    : d.kind === 'gate' ? [d.inputs, d.outputs]
+    : [d.inputs.map(([, e]) => e), d.outputs.map(([, e]) => e)];
+  const reads = drivers.map(d => exprs(d)[0].reduce((names, e) => netNames(e, names), new Set<string>()));
+  const writes = drivers.map(d => exprs(d)[1].reduce((names, e) => netNames(e, names), new Set<string>()));
+  const writers = new Map<string, number[]>();
+  writes.forEach((names, i) => names.forEach(n => writers.set(n, [...writers.get(n) ?? [], i])));
+
+  let acyclic = true;
+  const readers: number[][] = drivers.map(() => []);
+  const pending = drivers.map(() => 0);
+  reads.forEach((names, i) => {
+    const from = new Set<number>();
+    names.forEach(n => writers.get(n)?.forEach(w => from.add(w)));
+    if (from.delete(i)) acyclic = false;
+    from.forEach(w => readers[w].push(i));
+    pending[i] = from.size;
+  });
+
+  const order: number[] = [];
+  const placed = drivers.map(() => false);
+  const place = (i: number) => {
+    placed[i] = true;
+    order.push(i);
+  };
+  pending.forEach((count, i) => { if (count === 0) place(i); });
+  for (let k = 0; k < order.length; k++) {
+    for (const r of readers[order[k]]) if (--pending[r] === 0) place(r);
+  }
+  if (order.length < drivers.length) acyclic = false;
+  placed.forEach((done, i) => { if (!done) order.push(i); });
+  return { drivers: order.map(i => drivers[i]), acyclic };
+}
+
+// Value of an expression in a context of the given width (Verilog's context-determined operands)
+function evaluate(e: Expr, width: number, model: SimModel, values: Map<string, Bits>): Bits {
+  const self = (x: Expr) => evaluate(x, widthOf(x, model), model, values);
+  switch (e.kind) {
+    case 'const':
+      return resize(e.bits, width);
+    case 'fill':
+      return new Array(width).fill(e.value);
+    case 'ref': {
+      const range = model.nets.get(e.name) ?? { msb: 0, lsb: 0 };
+      const bits = values.get(e.name) ?? new Array(rangeWidth(range)).fill('x');
+      return resize(e.indices ? e.indices.map(i => bits[offsetOf(range, i)] ?? 'x') : bits, width);
+    }
+    case 'unary': {
+      if (e.op === '~') return evaluate(e.arg, width, model, values).map(not);
+      if (e.op === '-') return negate(evaluate(e.arg, width, model, values));
+      if (e.op === '+') return evaluate(e.arg, width, model, values);
+      const arg = self(e.arg);
+      const reduced = e.op === '!' ? not(truth(arg))
+        : e.op === '&' || e.op === '~&' ? arg.reduce(and)
+        : e.op === '|' || e.op === '~|' ? arg.reduce(or)
+        : arg.reduce(xor);
+      return resize([e.op.startsWith('~') ? not(reduced) : reduced], width);
+    }
+    case 'binary': {
+      const { op } = e;
+      if (op === '&&' || op === '||') {
+        const l = truth(self(e.left));
+        const r = truth(self(e.right));
+        return resize([op === '&&' ? and(l, r) : or(l, r)], width);
+      }
+      if (['==', '!=', '===', '!==', '<', '<=', '>', '>='].includes(op)) {
+        const w = Math.max(widthOf(e.left, model), widthOf(e.right, model));
+        return resize([compare(op, evaluate(e.left, w, model, values), evaluate(e.right, w, model, values))], width);
+      }
+      if (op === '<<' || op === '>>') {
+        const value = evaluate(e.left, width, model, values);
+        const amount = toNumber(self(e.right));
+        if (amount === undefined) return new Array(width).fill('x');
+        const shifted = op === '<<'
+          ? [...new Array(Math.min(amount, width)).fill('0'), ...value].slice(0, width)
+          : [...value.slice(amount), ...new Array(width).fill('0')].slice(0, width);
+        return shifted;
+      }
+      const l = evaluate(e.left, width, model, values);
+      const r = evaluate(e.right, width, model, values);
+      if (op === '+') return add(l, r, '0');
+      if (op === '-') return add(l, r.map(not), '1');
+      const bit = op === '&' ? and : op === '|' ? or : op === '^' ? xor : (a: LogicValue, b: LogicValue) => not(xor(a, b));
+      return l.map((a, i) => bit(a, r[i]));
+    }
+    case 'cond': {
+      const test = truth(self(e.test));
+      const a = evaluate(e.then, width, model, values);
+      const b = evaluate(e.otherwise, width, model, values);
+      if (test === '1') return a;
+      if (test === '0') return b;
+      return a.map((bit, i) => bit === b[i] ? bit : 'x');
+    }
+    case 'concat': {
+      const once = [...e.parts].reverse().flatMap(self);
+      const bits: Bits = [];
+      for (let i = 0; i < e.count; i++) bits.push(...once);
+      return resize(bits, width);
+    }
+  }
+}
+
+function parseModule(tokens: Token[], name: string, lineOf: (offset: number) => number, instantiate: (type: string) => SimModel): SimModel {
+  const model: SimModel = { module: name, ports: [], nets: new Map(), drivers: [], acyclic: true, unsupported: [] };
+  const params = new Map<string, Bits>();
+  const parser = createParser(tokens, params);
+  const skipGroup = parser.skipGroup;
+  const note = (offset: number, what: string) => model.unsupported.push(`line ${lineOf(offset)}: ${what}`);
+  // Widths are checked once every net is declared
+  const drivers: [number, Driver][] = [];
+
+  const declarePort = (portName: string, direction: SimPort['direction'] | undefined, range: Range | undefined) => {
+    const existing = model.ports.find(p => p.name === portName);
+    if (range) model.nets.set(portName, range);
+    else if (!model.nets.has(portName)) model.nets.set(portName, { msb: 0, lsb: 0 });
+    const r = model.nets.get(portName)!;
+    const port: SimPort = { name: portName, direction: direction ?? existing?.direction ?? 'inout', msb: r.msb, lsb: r.lsb, width: rangeWidth(r) };
+    if (existing) Object.assign(existing, direction ? port : { msb: r.msb, lsb: r.lsb, width: port.width });
+    else model.ports.push(port);
+  };
+
+  // Parameter declarations: [type] [range] NAME = value, ...
+  const parseParams = (from: number, to: number) => {
+    for (const [start, end] of parser.splitList(from, to)) {
+      const eq = parser.findAt0(start, end, ['=']);
+      if (eq < 0) continue;
+      const nameTok = tokens[eq - 1];
+      try {
+        params.set(nameTok.text, constBits(parser.parseExpr(eq + 1, end), model));
+      } catch (err: any) {
+        note(nameTok.offset, `parameter ${nameTok.text}: ${err.message}`);
+      }
+    }
+  };
+
+  // Direction, type and range prefix of a declaration; returns the index after it
+  const declarationPrefix = (i: number, to: number): { next: number; range?: Range } => {
+    let range: Range | undefined;
+    while (i < to && (DECLARATION_SKIPPED.has(tokens[i].text) || NET_TYPES.has(tokens[i].text))) i++;
+    while (i < to && tokens[i].text === '[') {
+      const close = skipGroup(i);
+      range = parser.parseRange(i + 1, close, model);
+      i = close + 1;
+    }
+    return { next: i, range };
+  };
+
+  let i = tokens.findIndex(t => t.text === 'module');
+  if (i < 0) return model;
+  i += 2;
+  if (tokens[i]?.text === '#' && tokens[i + 1]?.text === '(') {
+    const close = skipGroup(i + 1);
+    let start = i + 2;
+    if (tokens[start]?.text === 'parameter') start++;
+    parseParams(start, close);
+    i = close + 1;
+  }
+  if (tokens[i]?.text === '(') {
+    const close = skipGroup(i);
+    let direction: SimPort['direction'] | undefined;
+    let range: Range | undefined;
+    for (const [start, end] of parser.splitList(i + 1, close)) {
+      let j = start;
+      const word = tokens[j]?.text;
+      if (word === 'input' || word === 'output' || word === 'inout') {
+        direction = word;
+        range = undefined;
+        j++;
+      }
+      try {
+        const prefix = declarationPrefix(j, end);
+        if (prefix.next > j) range = prefix.range;
+        j = prefix.next;
+        const portName = tokens[j]?.text;
+        if (portName && isIdentifier(portName)) declarePort(portName, direction, direction ? range : undefined);
+      } catch (err: any) {
+        note(tokens[start].offset, err.message);
+      }
+    }
+    i = close + 1;
+  }
+  i = parser.statementEnd(i) + 1;
+
+  while (i < tokens.length) {
+    const tok = tokens[i];
+    const t = tok.text;
+    if (t === 'endmodule') break;
+    const end = parser.statementEnd(i);
+    try {
+      if (t === 'input' || t === 'output' || t === 'inout') {
+        const prefix = declarationPrefix(i + 1, end);
+        for (const [start] of parser.splitList(prefix.next, end)) declarePort(tokens[start].text, t, prefix.range);
+      } else if (t === 'parameter' || t === 'localparam') {
+        parseParams(i + 1, end);
+      } else if (NET_TYPES.has(t)) {
+        const prefix = declarationPrefix(i + 1, end);
+        for (const [start, stop] of parser.splitList(prefix.next, end)) {
+          const netName = tokens[start].text;
+          if (!model.nets.has(netName) || prefix.range) model.nets.set(netName, prefix.range ?? model.nets.get(netName) ?? { msb: 0, lsb: 0 });
+          if (tokens[start + 1]?.text === '[') throw new Error(`unpacked array ${netName} is not simulated`);
+          const eq = parser.findAt0(start, stop, ['=']);
+          if (eq >= 0) drivers.push([tok.offset, { kind: 'assign', target: { kind: 'ref', name: netName }, value: parser.parseExpr(eq + 1, stop) }]);
+        }
+      } else if (t === 'assign') {
+        for (const [start, stop] of parser.splitList(i + 1, end)) {
+          const eq = parser.findAt0(start, stop, ['=']);
+          if (eq < 0) throw new Error('assign without "="');
+          drivers.push([tok.offset, { kind: 'assign', target: parser.parseExpr(start, eq), value: parser.parseExpr(eq + 1, stop) }]);
+        }
+      } else if (GATE_PRIMITIVES.has(t)) {
+        let j = i + 1;
+        if (tokens[j]?.text === '(' && /^(strong|weak|pull|supply|highz)/.test(tokens[j + 1]?.text ?? '')) j = skipGroup(j) + 1;
+        // Delays do not matter to a zero-delay evaluation
+        if (tokens[j]?.text === '#') j = tokens[j + 1]?.text === '(' ? skipGroup(j + 1) + 1 : j + 2;
+        for (const [start] of parser.splitList(j, end)) {
+          let k = start;
+          if (isIdentifier(tokens[k].text)) k++;
+          if (tokens[k]?.text === '[') throw new Error(`array of ${t} gates is not simulated`);
+          if (tokens[k]?.text !== '(') throw new Error(`malformed ${t} gate`);
+          const terminals = parser.splitList(k + 1, skipGroup(k)).map(([a, b]) => parser.parseExpr(a, b));
+          const outputCount = t === 'buf' || t === 'not' ? Math.max(terminals.length - 1, 1) : 1;
+          drivers.push([tok.offset, { kind: 'gate', type: t, outputs: terminals.slice(0, outputCount), inputs: terminals.slice(outputCount) }]);
+        }
+      } else if (t.startsWith('always') || t === 'initial') {
+        note(tok.offset, `${t} block (only assigns, gate primitives and instances are simulated)`);
+        i = parser.skipProcedural(i) + 1;
+        continue;
+      } else if (t === 'function' || t === 'task' || t === 'generate') {
+        note(tok.offset, `${t} (only assigns, gate primitives and instances are simulated)`);
+        const close = tokens.findIndex((x, j) => j > i && x.text === `end${t}`);
+        i = close < 0 ? tokens.length : close + 1;
+        continue;
+      } else if (t === 'genvar' || t === 'timeunit' || t === 'timeprecision' || t === 'import' || t === ';') {
+        // Nothing to evaluate
+      } else if (isIdentifier(t) && !isKeyword(t)) {
+        parseInstance(i);
+      } else {
+        throw new Error(`"${t}" statement is not simulated`);
+      }
+    } catch (err: any) {
+      note(tok.offset, err.message);
+    }
+    i = end + 1;
+  }
+  const kept = drivers.filter(([offset, d]) => {
+    const exprs = d.kind === 'assign' ? [d.target, d.value] : d.kind === 'gate' ? [...d.inputs, ...d.outputs] : [...d.inputs, ...d.outputs].map(([, e]) => e);
+    if (exprs.every(e => widestOf(e, model) <= MAX_WIDTH)) return true;
+    note(offset, `value wider than ${MAX_WIDTH} bits is not simulated`);
+    return false;
+  });
+  Object.assign(model, sortDrivers(kept.map(([, d]) => d)));
+  return model;
+
+  function parseInstance(i: number) {
+    const type = tokens[i].text;
+    let j = i + 1;
+    if (tokens[j]?.text === '#') throw new Error(`instance of ${type} with parameter overrides is not simulated`);
+    if (!isIdentifier(tokens[j]?.text ?? '') || tokens[j + 1]?.text !== '(') {
+      throw new Error(`declaration of type ${type} is not simulated`);
+    }
+    const sub = instantiate(type);
+    const open = j + 1;
+    const inputs: [string, Expr][] = [];
+    const outputs: [string, Expr][] = [];
+    const connect = (port: SimPort | undefined, expr: Expr | undefined) => {
+      if (!port || !expr) return;
+      if (port.direction === 'input') inputs.push([port.name, expr]);
+      else if (port.direction === 'output') outputs.push([port.name, expr]);
+      else throw new Error(`inout port ${port.name} of ${type} is not simulated`);
+    };
+    parser.splitList(open + 1, skipGroup(open)).forEach(([start, stop], position) => {
+      if (tokens[start].text !== '.') {
+        connect(sub.ports[position], parser.parseExpr(start, stop));
+      } else if (tokens[start + 1]?.text === '*') {
+        for (const port of sub.ports) connect(port, { kind: 'ref', name: port.name });
+      } else {
+        const port = sub.ports.find(p => p.name === tokens[start + 1]?.text);
+        if (!port) throw new Error(`${type} has no port ${tokens[start + 1]?.text}`);
+        if (tokens[start + 2]?.text !== '(') connect(port, { kind: 'ref', name: port.name });
+        else if (tokens[start + 3]?.text !== ')') connect(port, parser.parseExpr(start + 3, skipGroup(start + 2)));
+      }
+    });
+    drivers.push([tokens[i].offset, { kind: 'instance', model: sub, inputs, outputs }]);
+  }
+}
+
+function createParser(tokens: Token[], params: Map<string, Bits>) {
+  const isOpen = (t: string) => t === '(' || t === '[' || t === '{';
+  const isClose = (t: string) => t === ')' || t === ']' || t === '}';
+
+  // Index of the matching closing bracket, or the last token if unbalanced
+  const skipGroup = (i: number): number => {
+    let depth = 0;
+    for (let j = i; j < tokens.length; j++) {
+      if (isOpen(tokens[j].text)) depth++;
+      else if (isClose(tokens[j].text) && --depth === 0) return j;
+    }
+    return tokens.length - 1;
+  };
+
+  const statementEnd = (i: number): number => {
+    let depth = 0;
+    for (let j = i; j < tokens.length; j++) {
+      const t = tokens[j].text;
+      if (isOpen(t)) depth++;
+      else if (isClose(t)) depth--;
+      else if (t === ';' && depth <= 0) return j;
+      else if (t === 'endmodule' && j > i) return j - 1;
+    }
+    return tokens.length - 1;
+  };
+
+  // Last token of an always/initial block, following begin/end, case/endcase and if/else
+  const skipProcedural = (i: number): number => {
+    let j = i + 1;
+    if (tokens[j]?.text === '@') j = tokens[j + 1]?.text === '(' ? skipGroup(j + 1) + 1 : j + 2;
+    const statement = (k: number): number => {
+      const t = tokens[k]?.text;
+      if (t === 'begin' || t === 'case' || t === 'casez' || t === 'casex' || t === 'fork') {
+        const opens = t === 'begin' ? ['begin'] : t === 'fork' ? ['fork'] : ['case', 'casez', 'casex'];
+        const close = t === 'begin' ? 'end' : t === 'fork' ? 'join' : 'endcase';
+        let depth = 0;
+        for (let m = k; m < tokens.length; m++) {
+          if (opens.includes(tokens[m].text)) depth++;
+          else if (tokens[m].text === close && --depth === 0) return m;
+        }
+        return tokens.length - 1;
+      }
+      if (t === 'if' || t === 'for' || t === 'while') {
+        const body = statement(skipGroup(k + 1) + 1);
+        return tokens[body + 1]?.text === 'else' ? statement(body + 2) : body;
+      }
+      return statementEnd(k);
+    };
+    return statement(j);
+  };
+
+  const splitList = (from: number, to: number): [number, number][] => {
+    const parts: [number, number][] = [];
+    let depth = 0;
+    let start = from;
+    for (let j = from; j < to; j++) {
+      const t = tokens[j].text;
+      if (isOpen(t)) depth++;
+      else if (isClose(t)) depth--;
+      else if (t === ',' && depth === 0) {
+        parts.push([start, j]);
+        start = j + 1;
+      }
+    }
+    if (start < to) parts.push([start, to]);
+    return parts;
+  };
+
+  const findAt0 = (from: number, to: number, texts: string[]): number => {
+    let depth = 0;
+    for (let j = from; j < to; j++) {
+      const t = tokens[j].text;
+      if (isOpen(t)) depth++;
+      else if (isClose(t)) depth--;
+      // The last '=' of '===' and '!==' is not an assignment
+      else if (depth === 0 && texts.includes(t) && !(t === '=' && /^[=!]=$/.test(tokens[j - 1]?.text ?? ''))) return j;
+    }
+    return -1;
+  };
+
+  // Expression in tokens [from, to)
+  const parseExpr = (from: number, to: number): Expr => {
+    let pos = from;
+    const peek = () => (pos < to ? tokens[pos].text : undefined);
+    const expect = (text: string) => {
+      if (peek() !== text) throw new Error(`expected "${text}" near "${peek() ?? 'end of expression'}"`);
+      pos++;
+    };
+    // === and !== arrive as "==" or "!=" followed by "="
+    const operator = (): string | undefined => {
+      const t = peek();
+      if ((t === '==' || t === '!=') && tokens[pos + 1]?.text === '=' && tokens[pos + 1].offset === tokens[pos].offset + 2) return t + '=';
+      return t;
+    };
+
+    const primary = (): Expr => {
+      const t = peek();
+      if (t === undefined) throw new Error('incomplete expression');
+      if (UNARY_OPERATORS.has(t)) {
+        pos++;
+        return { kind: 'unary', op: t, arg: primary() };
+      }
+      if (t === '(') {
+        pos++;
+        const e = conditional();
+        expect(')');
+        return e;
+      }
+      if (t === '{') {
+        pos++;
+        const first = conditional();
+        if (peek() === '{') {
+          // Replication: {n{a, b}}
+          const count = toNumber(constBits(first));
+          if (count === undefined) throw new Error('replication count is not a constant');
+          if (count > MAX_WIDTH) throw new Error(`replication count above ${MAX_WIDTH} is not simulated`);
+          pos++;
+          const parts = [conditional()];
+          while (peek() === ',') { pos++; parts.push(conditional()); }
+          expect('}');
+          expect('}');
+          return { kind: 'concat', parts, count };
+        }
+        const parts = [first];
+        while (peek() === ',') { pos++; parts.push(conditional()); }
+        expect('}');
+        return { kind: 'concat', parts, count: 1 };
+      }
+      if (/^[\d']/.test(t)) {
+        pos++;
+        return parseLiteral(t);
+      }
+      if (t === '$') throw new Error(`system function $${tokens[pos + 1]?.text ?? ''} is not simulated`);
+      if (isIdentifier(t) && !isKeyword(t)) {
+        pos++;
+        if (peek() === '(') throw new Error(`function call ${t}() is not simulated`);
+        if (peek() === '::' || peek() === '.') throw new Error(`${t}${peek()}... is not simulated`);
+        const param = params.get(t);
+        let indices: number[] | undefined;
+        while (peek() === '[') {
+          if (indices) throw new Error(`multi-dimensional select of ${t} is not simulated`);
+          const close = skipGroup(pos);
+          indices = selectIndices(pos + 1, close, t);
+          pos = close + 1;
+        }
+        if (param) return { kind: 'const', bits: indices ? indices.map(i => param[i] ?? 'x') : param };
+        return { kind: 'ref', name: t, indices };
+      }
+      throw new Error(`"${t}" is not simulated`);
+    };
+
+    const binary = (minPrecedence: number): Expr => {
+      let left = primary();
+      for (;;) {
+        const op = operator();
+        const precedence = op ? BINARY_PRECEDENCE[op] : undefined;
+        if (op === '*' || op === '/' || op === '%' || op === '**') throw new Error(`operator ${op} is not simulated`);
+        if (precedence === undefined || precedence < minPrecedence) return left;
+        pos += op === '===' || op === '!==' ? 2 : 1;
+        left = { kind: 'binary', op: op!, left, right: binary(precedence + 1) };
+      }
+    };
+
+    const conditional = (): Expr => {
+      const test = binary(1);
+      if (peek() !== '?') return test;
+      pos++;
+      const then = conditional();
+      expect(':');
+      return { kind: 'cond', test, then, otherwise: conditional() };
+    };
+
+    const e = conditional();
+    if (pos < to) throw new Error(`unexpected "${tokens[pos].text}"`);
+    return e;
+  };
+
+  // Declared indices selected by [i], [msb:lsb], [base+:width] or [base-:width], least significant first
+  const selectIndices = (from: number, to: number, name: string): number[] => {
+    const colon = findAt0(from, to, [':', '+:', '-:']);
+    const constant = (a: number, b: number) => {
+      const value = toNumber(constBits(parseExpr(a, b)));
+      if (value === undefined) throw new Error(`select of ${name} with a variable index is not simulated`);
+      return value;
+    };
+    if (colon < 0) return [constant(from, to)];
+    const a = constant(from, colon);
+    const b = constant(colon + 1, to);
+    const kind = tokens[colon].text;
+    const [hi, lo] = kind === '+:' ? [a + b - 1, a] : kind === '-:' ? [a, a - b + 1] : [a, b];
+    if (Math.abs(hi - lo) >= MAX_WIDTH) throw new Error(`select of ${name} wider than ${MAX_WIDTH} bits is not simulated`);
+    const step = hi >= lo ? 1 : -1;
+    const indices: number[] = [];
+    for (let i = lo; i !== hi + step; i += step) indices.push(i);
+    return indices;
+  };
+
+  const parseRange = (from: number, to: number, model: SimModel): Range => {
+    const colon = findAt0(from, to, [':']);
+    if (colon < 0) throw new Error('unpacked or C-style range is not simulated');
+    const msb = toNumber(constBits(parseExpr(from, colon), model));
+    const lsb = toNumber(constBits(parseExpr(colon + 1, to), model));
+    if (msb === undefined || lsb === undefined) throw new Error('range bounds are not constant');
+    if (rangeWidth({ msb, lsb }) > MAX_WIDTH) throw new Error(`range wider than ${MAX_WIDTH} bits is not simulated`);
+    return { msb, lsb };
+  };
+
+  return { skipGroup, statementEnd, skipProcedural, splitList, findAt0, parseExpr, parseRange };
+}
+
+// Value of a constant expression (literals and parameters)
+function constBits(e: Expr, model?: SimModel): Bits {
+  const scratch: SimModel = model ?? { module: '', ports: [], nets: new Map(), drivers: [], acyclic: true, unsupported: [] };
+  const refs = (x: Expr): boolean => x.kind === 'ref' || (x.kind === 'unary' && refs(x.arg))
+    || (x.kind === 'binary' && (refs(x.left) || refs(x.right)))
+    || (x.kind === 'cond' && (refs(x.test) || refs(x.then) || refs(x.otherwise)))
+    || (x.kind === 'concat' && x.parts.some(refs));
+  if (refs(e)) throw new Error('value is not a constant');
+  if (widestOf(e, scratch) > MAX_WIDTH) throw new Error(`value wider than ${MAX_WIDTH} bits is not simulated`);
+  return evaluate(e, widthOf(e, scratch), scratch, new Map());
+}
+
+function parseLiteral(text: string): Expr {
+  const clean = text.replace(/_/g, '');
+  const fill = /^'([01xXzZ])$/.exec(clean);
+  if (fill) return { kind: 'fill', value: normalize(fill[1]) };
+  const m = /^(\d*)'[sS]?([bBoOdDhH])([0-9a-fA-FxXzZ?]+)$/.exec(clean);
+  if (!m) {
+    if (!/^\d+$/.test(clean)) throw new Error(`literal ${text} is not simulated`);
+    // Unsized decimals are 32 bits wide
+    return { kind: 'const', bits: resize(numberBits(BigInt(clean)), 32) };
+  }
+  const size = m[1] ? Number(m[1]) : 32;
+  if (size > MAX_WIDTH) throw new Error(`literal wider than ${MAX_WIDTH} bits is not simulated`);
+  const base = m[2].toLowerCase();
+  let bits: Bits;
+  if (base === 'd') {
+    if (!/^\d+$/.test(m[3])) bits = new Array(size).fill('x');
+    else bits = numberBits(BigInt(m[3]));
+  } else {
+    const per = base === 'b' ? 1 : base === 'o' ? 3 : 4;
+    bits = [];
+    for (const digit of m[3].split('').reverse()) {
+      if (/[xXzZ?]/.test(digit)) {
+        bits.push(...new Array(per).fill('x'));
+      } else {
+        const value = parseInt(digit, 16);
+        for (let i = 0; i < per; i++) bits.push(((value >> i) & 1) ? '1' : '0');
+      }
+    }
+  }
+  // A literal whose leftmost digit is X extends with X, otherwise with 0
+  const pad = bits.length && bits[bits.length - 1] === 'x' ? 'x' : '0';
+  return { kind: 'const', bits: bits.length >= size ? bits.slice(0, size) : [...bits, ...new Array(size - bits.length).fill(pad)] };
+}
+
+function numberBits(value: bigint): Bits {
+  return parseBits(value.toString(2));
+}
+
+function toNumber(bits: Bits): number | undefined {
+  let value = 0;
+  for (let i = bits.length - 1; i >= 0; i--) {
+    if (bits[i] === 'x') return undefined;
+    value = value * 2 + (bits[i] === '1' ? 1 : 0);
+  }
+  return value;
+}
+
+function parseBits(text: string): Bits {
+  return text.split('').reverse().map(normalize);
+}
+
+function formatBits(bits: Bits): string {
+  return [...bits].reverse().join('');
+}
+
+function normalize(c: string): LogicValue {
+  return c === '0' ? '0' : c === '1' ? '1' : 'x';
+}
+
+// Zero-extend or truncate
+function resize(bits: Bits, width: number): Bits {
+  return bits.length >= width ? bits.slice(0, width) : [...bits, ...new Array(width - bits.length).fill('0')];
+}
+
+function rangeWidth(range: Range): number {
+  return Math.abs(range.msb - range.lsb) + 1;
+}
+
+function offsetOf(range: Range, index: number): number {
+  return range.msb >= range.lsb ? index - range.lsb : range.lsb - index;
+}
+
+// Declared indices of a port, least significant first
+function bitIndices(port: SimPort): number[] {
+  const step = port.msb >= port.lsb ? 1 : -1;
+  const indices: number[] = [];
+  for (let i = port.lsb; i !== port.msb + step; i += step) indices.push(i);
+  return indices;
+}
+
+function truth(bits: Bits): LogicValue {
+  return bits.includes('1') ? '1' : bits.includes('x') ? 'x' : '0';
+}
+
+function and(a: LogicValue, b: LogicValue): LogicValue {
+  return a === '0' || b === '0' ? '0' : a === '1' && b === '1' ? '1' : 'x';
+}
+
+function or(a: LogicValue, b: LogicValue): LogicValue {
+  return a === '1' || b === '1' ? '1' : a === '0' && b === '0' ? '0' : 'x';
+}
+
+function xor(a: LogicValue, b: LogicValue): LogicValue {
+  return a === 'x' || b === 'x' ? 'x' : a === b ? '0' : '1';
+}
+
+function not(a: LogicValue): LogicValue {
+  return a === 'x' ? 'x' : a === '0' ? '1' : '0';
+}
+
+// Ripple-carry sum; any X operand bit makes the whole result X
+function add(a: Bits, b: Bits, carryIn: LogicValue): Bits {
+  if (a.includes('x') || b.includes('x')) return a.map(() => 'x');
+  let carry = carryIn === '1';
+  return a.map((bit, i) => {
+    const ones = Number(bit === '1') + Number(b[i] === '1') + Number(carry);
+    carry = ones >= 2;
+    return ones % 2 ? '1' : '0';
+  });
+}
+
+function negate(bits: Bits): Bits {
+  return add(bits.map(not), bits.map(() => '0'), '1');
+}
+
+function compare(op: string, a: Bits, b: Bits): LogicValue {
+  if (op === '===' || op === '!==') return (formatBits(a) === formatBits(b)) === (op === '===') ? '1' : '0';
+  if (a.includes('x') || b.includes('x')) return 'x';
+  // Equal-width unsigned values compare like their bit strings
+  const l = formatBits(a);
+  const r = formatBits(b);
+  const result = op === '==' ? l === r : op === '!=' ? l !== r : op === '<' ? l < r : op === '<=' ? l <= r : op === '>' ? l > r : l >= r;
+  return result ? '1' : '0';
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
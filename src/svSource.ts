@@ -0,0 +1,371 @@
+// Lightweight SystemVerilog source indexer used to map schematic elements back
+// to the lines that declare or drive them. This is not a full parser: it only
+// understands enough structure (modules, ports, nets, assigns, gate primitives
+// and module instances) to answer "where does this name come from?".
+
+export type Token = {
+  text: string;
+  offset: number;
+};
+
+export type SourceSymbolKind = 'module' | 'port' | 'net' | 'assign' | 'procedural' | 'gate' | 'instance';
+
+export type SourceSymbol = {
+  name: string;
+  kind: SourceSymbolKind;
+  module?: string;
+  // Offsets of the name itself
+  offset: number;
+  end: number;
+  // Offsets of the enclosing statement (declaration, assign, instance, ...)
+  stmtStart: number;
+  stmtEnd: number;
+};
+
+export type ModuleInfo = {
+  name: string;
+  offset: number;
+  end: number;
+};
+
+export type SourceIndex = {
+  modules: ModuleInfo[];
+  symbols: SourceSymbol[];
+};
+
+export const DIRECTIONS = new Set(['input', 'output', 'inout', 'ref']);
+export const NET_TYPES = new Set(['wire', 'logic', 'reg', 'tri', 'bit', 'var', 'wand', 'wor', 'tri0', 'tri1', 'supply0', 'supply1', 'uwire']);
+export const GATE_PRIMITIVES = new Set(['and', 'or', 'nand', 'nor', 'xor', 'xnor', 'not', 'buf', 'bufif0', 'bufif1', 'notif0', 'notif1']);
+const KEYWORDS = new Set([
+  ...DIRECTIONS, ...NET_TYPES, ...GATE_PRIMITIVES,
+  'module', 'endmodule', 'assign', 'always', 'always_comb', 'always_ff', 'always_latch', 'initial', 'begin', 'end',
+  'if', 'else', 'case', 'casez', 'casex', 'endcase', 'default', 'for', 'generate', 'endgenerate', 'genvar',
+  'parameter', 'localparam', 'signed', 'unsigned', 'integer', 'int', 'byte', 'shortint', 'longint', 'typedef',
+  'enum', 'struct', 'packed', 'function', 'endfunction', 'task', 'endtask', 'posedge', 'negedge', 'or', 'import',
+  'package', 'endpackage', 'automatic', 'static', 'return', 'unique', 'priority',
+]);
+const STATEMENT_END = new Set([';', 'begin', 'end', 'else', ')', ':']);
+
+export function isKeyword(word: string): boolean {
+  return KEYWORDS.has(word);
+}
+
+export function isIdentifier(text: string): boolean {
+  return /^[A-Za-z_][\w$]*$/.test(text) || /^\\\S+$/.test(text);
+}
+
+// Replace comments with spaces so that offsets stay aligned with the original text.
+export function stripComments(text: string): string {
+  return text
+    .replace(/\/\*[\s\S]*?\*\//g, m => m.replace(/[^\n]/g, ' '))
+    .replace(/\/\/[^\n]*/g, m => ' '.repeat(m.length));
+}
+
+// File names of `include "..." and `include <...> directives, in order
+export function includeNames(text: string): string[] {
+  return [...stripComments(text).matchAll(/`include\s*(?:"([^"\n]+)"|<([^>\n]+)>)/g)].map(m => m[1] ?? m[2]);
+}
+
+export function tokenize(text: string): Token[] {
+  const src = stripComments(text);
+  const tokens: Token[] = [];
+  const re = /(\\\S+)|([A-Za-z_][\w$]*)|(\d*'[sS]?[bBoOdDhH][0-9a-fA-FxXzZ_?]+|'[01xXzZ]|\d[\d_]*(?:\.\d+)?)|("(?:[^"\\]|\\.)*")|(`\w+)|(~&|~\||~\^|\^~|&&|\|\||==|!=|<=|>=|<<|>>|\+:|-:|::|[^\s])/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(src)) !== null) {
+    if (m[4] || m[5]) continue; // strings and compiler directives carry no structure we need
+    tokens.push({ text: m[0], offset: m.index });
+  }
+  return tokens;
+}
+
+export function indexSource(text: string): SourceIndex {
+  const tokens = tokenize(text);
+  const modules: ModuleInfo[] = [];
+  const symbols: SourceSymbol[] = [];
+  let currentModule: ModuleInfo | undefined;
+  let procedural = 0;
+
+  const add = (tok: Token, kind: SourceSymbolKind, stmtStart: number, stmtEnd: number) => {
+    symbols.push({
+      name: tok.text,
+      kind,
+      module: currentModule?.name,
+      offset: tok.offset,
+      end: tok.offset + tok.text.length,
+      stmtStart,
+      stmtEnd,
+    });
+  };
+
+  // Index of the matching closing bracket, or the last token if unbalanced
+  const skipGroup = (i: number): number => {
+    const open = tokens[i].text;
+    const close = open === '(' ? ')' : open === '[' ? ']' : '}';
+    let depth = 0;
+    for (let j = i; j < tokens.length; j++) {
+      if (tokens[j].text === open) depth++;
+      else if (tokens[j].text === close && --depth === 0) return j;
+    }
+    return tokens.length - 1;
+  };
+
+  const findStatementEnd = (i: number): number => {
+    let depth = 0;
+    for (let j = i; j < tokens.length; j++) {
+      const t = tokens[j].text;
+      if (t === '(' || t === '[' || t === '{') depth++;
+      else if (t === ')' || t === ']' || t === '}') depth--;
+      else if (t === ';' && depth <= 0) return j;
+    }
+    return tokens.length - 1;
+  };
+
+  const endOffset = (j: number) => tokens[j].offset + tokens[j].text.length;
+
+  // Collect declared names from i up to (exclusive) stop; returns the declared tokens
+  const collectDeclared = (i: number, stop: number): Token[] => {
+    const names: Token[] = [];
+    for (let j = i; j < stop; j++) {
+      const t = tokens[j].text;
+      if (t === '[' || t === '(' || t === '{') { j = skipGroup(j); continue; }
+      if (t === '=') {
+        // Skip initialiser up to the next comma at depth 0
+        let depth = 0;
+        while (j + 1 < stop) {
+          const n = tokens[j + 1].text;
+          if (n === '(' || n === '[' || n === '{') depth++;
+          else if (n === ')' || n === ']' || n === '}') depth--;
+          else if (n === ',' && depth <= 0) break;
+          j++;
+        }
+        continue;
+      }
+      if (!isIdentifier(t) || isKeyword(t)) continue;
+      const next = tokens[j + 1]?.text;
+      // A following identifier means this one was a user-defined type
+      if (next !== undefined && isIdentifier(next) && !isKeyword(next)) continue;
+      if (next === '::' || next === '.') continue;
+      names.push(tokens[j]);
+    }
+    return names;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const tok = tokens[i];
+    const t = tok.text;
+
+    if (t === 'module' && tokens[i + 1]) {
+      let n = i + 1;
+      while (tokens[n] && (tokens[n].text === 'automatic' || tokens[n].text === 'static')) n++;
+      if (!tokens[n]) break;
+      currentModule = { name: tokens[n].text, offset: tok.offset, end: text.length };
+      modules.push(currentModule);
+      const headerEnd = findStatementEnd(n);
+      add(tokens[n], 'module', tok.offset, endOffset(headerEnd));
+      // ANSI header: walk the port list for direction groups
+      for (let j = n + 1; j < headerEnd; j++) {
+        if (tokens[j].text === '#' && tokens[j + 1]?.text === '(') { j = skipGroup(j + 1); continue; }
+        if (DIRECTIONS.has(tokens[j].text)) {
+          let k = j + 1;
+          let depth = 0;
+          while (k < headerEnd) {
+            const kt = tokens[k].text;
+            if (kt === '(' || kt === '[' || kt === '{') depth++;
+            else if (kt === ')' || kt === ']' || kt === '}') { if (depth === 0) break; depth--; }
+            else if (depth === 0 && DIRECTIONS.has(kt)) break;
+            k++;
+          }
+          for (const name of collectDeclared(j + 1, k)) {
+            add(name, 'port', tokens[j].offset, endOffset(Math.max(j, k - 1)));
+          }
+          j = k - 1;
+        }
+      }
+      i = headerEnd;
+      continue;
+    }
+
+    if (t === 'endmodule') {
+      if (currentModule) currentModule.end = tok.offset + t.length;
+      currentModule = undefined;
+      procedural = 0;
+      continue;
+    }
+
+    const prev = tokens[i - 1]?.text;
+    const atStatementStart = prev === undefined || STATEMENT_END.has(prev) || prev === 'endmodule';
+
+    if (DIRECTIONS.has(t) && atStatementStart) {
+      const end = findStatementEnd(i);
+      for (const name of collectDeclared(i + 1, end)) add(name, 'port', tok.offset, endOffset(end));
+      i = end;
+      continue;
+    }
+
+    if (NET_TYPES.has(t) && atStatementStart) {
+      const end = findStatementEnd(i);
+      for (const name of collectDeclared(i + 1, end)) add(name, 'net', tok.offset, endOffset(end));
+      i = end;
+      continue;
+    }
+
+    if (t === 'assign') {
+      const end = findStatementEnd(i);
+      let eq = i + 1;
+      while (eq < end && tokens[eq].text !== '=') eq++;
+      for (let j = i + 1; j < eq; j++) {
+        const jt = tokens[j].text;
+        if (jt === '[') { j = skipGroup(j); continue; }
+        if (isIdentifier(jt) && !isKeyword(jt)) add(tokens[j], 'assign', tok.offset, endOffset(end));
+      }
+      i = end;
+      continue;
+    }
+
+    if (t.startsWith('always') || t === 'initial') {
+      procedural++;
+      continue;
+    }
+
+    if (GATE_PRIMITIVES.has(t) && atStatementStart) {
+      const end = findStatementEnd(i);
+      let j = i + 1;
+      // Optional strength and delay
+      if (tokens[j]?.text === '(' && /^(strong|weak|pull|supply|highz)/.test(tokens[j + 1]?.text ?? '')) j = skipGroup(j) + 1;
+      if (tokens[j]?.text === '#') j = tokens[j + 1]?.text === '(' ? skipGroup(j + 1) + 1 : j + 2;
+      // One or more "[name] (out, in...)" instances separated by commas
+      while (j < end) {
+        let nameTok: Token | undefined;
+        if (isIdentifier(tokens[j].text)) { nameTok = tokens[j]; j++; }
+        if (tokens[j]?.text === '[') j = skipGroup(j) + 1;
+        if (tokens[j]?.text !== '(') break;
+        const close = skipGroup(j);
+        const stmtStart = (nameTok ?? tokens[j]).offset;
+        if (nameTok) add(nameTok, 'gate', stmtStart, endOffset(close));
+        // First terminal is the output for all primitives handled here
+        let k = j + 1;
+        while (k < close && tokens[k].text !== ',') {
+          const kt = tokens[k].text;
+          if (kt === '[') { k = skipGroup(k) + 1; continue; }
+          if (isIdentifier(kt) && !isKeyword(kt)) add(tokens[k], 'gate', stmtStart, endOffset(close));
+          k++;
+        }
+        j = close + 1;
+        if (tokens[j]?.text === ',') j++;
+      }
+      i = end;
+      continue;
+    }
+
+    if (isIdentifier(t) && !isKeyword(t) && atStatementStart && currentModule) {
+      const next = tokens[i + 1]?.text;
+      // Procedural assignment: lhs [= | <=] ...
+      if (procedural > 0 && (next === '=' || next === '<=' || next === '[')) {
+        let j = i + 1;
+        if (next === '[') j = skipGroup(j) + 1;
+        if (tokens[j]?.text === '=' || tokens[j]?.text === '<=') {
+          add(tok, 'procedural', tok.offset, endOffset(findStatementEnd(i)));
+          continue;
+        }
+      }
+      // Module instantiation: Type [#(...)] name [dims] ( ... );
+      let j = i + 1;
+      if (tokens[j]?.text === '#' && tokens[j + 1]?.text === '(') j = skipGroup(j + 1) + 1;
+      if (tokens[j] && isIdentifier(tokens[j].text) && !isKeyword(tokens[j].text)) {
+        let k = j + 1;
+        if (tokens[k]?.text === '[') k = skipGroup(k) + 1;
+        if (tokens[k]?.text === '(') {
+          const end = findStatementEnd(i);
+          add(tokens[j], 'instance', tok.offset, endOffset(end));
+          i = end;
+          continue;
+        }
+      }
+    }
+  }
+
+  return { modules, symbols };
+}
+
+// Preference order when a name has several entries: drivers first, then declarations.
+const KIND_RANK: Record<SourceSymbolKind, number> = {
+  assign: 0,
+  procedural: 1,
+  gate: 2,
+  instance: 3,
+  port: 4,
+  net: 5,
+  module: 6,
+};
+
+export function findDefinition(index: SourceIndex, name: string, module?: string): SourceSymbol | undefined {
+  const matches = index.symbols.filter(s => s.name === name && (!module || !s.module || s.module === module));
+  if (matches.length === 0) return undefined;
+  return matches.sort((a, b) => KIND_RANK[a.kind] - KIND_RANK[b.kind] || a.offset - b.offset)[0];
+}
+
+// Reduce a schematic label such as "sum[3]", "u_add/y" or "Module: top" to candidate identifiers.
+export function labelToNames(label: string): string[] {
+  const names: string[] = [];
+  const trimmed = label.trim();
+  if (!trimmed) return names;
+  if (isIdentifier(trimmed)) names.push(trimmed);
+  const withoutIndex = trimmed.replace(/\[[^\]]*\]$/, '');
+  if (withoutIndex !== trimmed && isIdentifier(withoutIndex)) names.push(withoutIndex);
+  for (const part of trimmed.split(/[^\w$]+/)) {
+    if (part && isIdentifier(part) && !isKeyword(part) && !names.includes(part)) names.push(part);
+  }
+  return names;
+}
+
+// Names the schematic should highlight for a cursor position: the word under the cursor when
+// it is a known symbol, otherwise the names declared or driven by the innermost enclosing statement.
+export function namesAt(index: SourceIndex, offset: number, word?: string): string[] {
+  if (word && index.symbols.some(s => s.name === word && s.kind !== 'module')) return [word];
+  const containing = index.symbols.filter(s => s.kind !== 'module' && s.stmtStart <= offset && offset <= s.stmtEnd);
+  if (containing.length === 0) return [];
+  const innermost = Math.max(...containing.map(s => s.stmtStart));
+  const names: string[] = [];
+  for (const s of containing) {
+    if (s.stmtStart === innermost && !names.includes(s.name)) names.push(s.name);
+  }
+  return names;
+}
+
+export type SymbolDiff = {
+  added: string[];
+  removed: string[];
+  // Present in both versions, but declared or driven by a different statement
+  changed: string[];
+};
+
+const DIFF_KINDS = new Set<SourceSymbolKind>(['port', 'net', 'assign', 'procedural', 'gate', 'instance']);
+
+// Compare the gates, instances and nets of two versions of a file by name. Driving statements are
+// compared with whitespace and comments removed, so reformatting does not count as a change.
+export function diffSymbols(before: string, after: string, module?: string): SymbolDiff {
+  const collect = (text: string) => {
+    const stripped = stripComments(text);
+    const byName = new Map<string, string[]>();
+    for (const s of indexSource(text).symbols) {
+      if (!DIFF_KINDS.has(s.kind) || (module && s.module !== module)) continue;
+      // A port list or declaration statement lists many names; only driver statements say how one changed
+      const stmt = s.kind === 'port' || s.kind === 'net' ? s.kind : stripped.slice(s.stmtStart, s.stmtEnd).replace(/\s+/g, '');
+      byName.set(s.name, [...(byName.get(s.name) ?? []), stmt]);
+    }
+    for (const [name, stmts] of byName) byName.set(name, stmts.sort());
+    return byName;
+  };
+  const old = collect(before);
+  const cur = collect(after);
+  const diff: SymbolDiff = { added: [], removed: [], changed: [] };
+  for (const [name, stmts] of cur) {
+    const prev = old.get(name);
+    if (!prev) diff.added.push(name);
+    else if (prev.join('\n') !== stmts.join('\n')) diff.changed.push(name);
+  }
+  for (const name of old.keys()) {
+    if (!cur.has(name)) diff.removed.push(name);
+  }
+  return diff;
+}
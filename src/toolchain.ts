@@ -0,0 +1,195 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+// Toolchain health check: is the runner on PATH, do `runner --version` and `sv2svg --version`
+// work, and which alternative ways to run sv2svg exist on this machine.
+
+const pExecFile = promisify(execFile);
+
+export type CheckStatus = 'ok' | 'warning' | 'error' | 'info';
+
+export type RunnerSetup = {
+  runner: string;
+  runnerArgs: string[];
+  // Empty when the runner is sv2svg itself
+  command: string;
+};
+
+export type ToolchainFix =
+  | { kind: 'installUv'; label: string }
+  // inWorkspace: the runner is a binary inside a workspace folder, which the repository may have shipped
+  | { kind: 'useRunner'; label: string; setup: RunnerSetup; inWorkspace?: boolean }
+  | { kind: 'addOffline'; label: string };
+
+export type ToolchainCheck = {
+  title: string;
+  status: CheckStatus;
+  detail: string;
+  fixes: ToolchainFix[];
+};
+
+export type ToolchainOptions = RunnerSetup & {
+  timeoutMs: number;
+  // Workspace folders searched for a local virtual environment
+  folders: string[];
+  // False when the configured runner may not be executed (not confirmed by the user)
+  allowRun: boolean;
+};
+
+export const UV_INSTALL_URL = 'https://docs.astral.sh/uv/getting-started/installation/';
+
+const NETWORK_ERROR = /failed to (?:fetch|download)|dns error|could not connect|connection (?:refused|reset)|network|tls|certificate/i;
+const VENV_DIRS = ['.venv', 'venv', 'env'];
+
+export async function findOnPath(cmd: string, env: NodeJS.ProcessEnv = process.env): Promise<string | undefined> {
+  const isWindows = process.platform === 'win32';
+  const exts = isWindows ? ['', ...(env.PATHEXT ?? '.EXE;.CMD;.BAT;.COM').split(';').map(e => e.toLowerCase())] : [''];
+  const candidates = cmd.includes('/') || (isWindows && cmd.includes('\\'))
+    ? exts.map(ext => path.resolve(cmd + ext))
+    : (env.PATH ?? env.Path ?? '').split(path.delimiter).filter(Boolean).flatMap(dir => exts.map(ext => path.join(dir, cmd + ext)));
+  for (const candidate of candidates) {
+    try {
+      const st = await fs.promises.stat(candidate);
+      if (!st.isFile()) continue;
+      if (!isWindows) await fs.promises.access(candidate, fs.constants.X_OK);
+      return candidate;
+    } catch {
+      // Not here; keep looking
+    }
+  }
+  return undefined;
+}
+
+// What `--help` says about the tool's command line
+export type ToolHelp = {
+  // Long options, as argparse lists them in the usage line and the option table
+  flags: Set<string>;
+  // The input file may be '-' to read the source from stdin
+  stdin: boolean;
+};
+
+// A help line for the positional input (not an option) that pairs a lone "-" with stdin,
+// e.g. "  input   SystemVerilog file, or '-' to read stdin"
+const STDIN_INPUT = /^(?!\s*-)(?=.*\bstdin\b).*(?:^|[\s'"`(])-(?=$|[\s'"`),])/im;
+
+// Undefined when the text names no options, e.g. because the tool printed something else
+export function parseToolHelp(help: string): ToolHelp | undefined {
+  const flags = new Set(help.match(/(?<![\w-])--[a-zA-Z][\w-]*/g) ?? []);
+  return flags.size ? { flags, stdin: STDIN_INPUT.test(help) } : undefined;
+}
+
+// Errors that point at a missing or broken toolchain rather than at the design being rendered
+export function looksLikeToolchainError(err: any): boolean {
+  if (err?.code === 'ENOENT' || err?.code === 'EACCES' || err?.code === 127) return true;
+  const text = `${err?.message ?? ''}\n${err?.stderr ?? ''}`;
+  return /ENOENT|command not found|is not recognized|No interpreter found|No module named|executable file not found/i.test(text)
+    || NETWORK_ERROR.test(text);
+}
+
+export async function checkToolchain(opts: ToolchainOptions): Promise<ToolchainCheck[]> {
+  const checks: ToolchainCheck[] = [];
+  const alternatives = await detectAlternatives(opts);
+  const isUv = /^uvx?(?:\.exe)?$/i.test(path.basename(opts.runner));
+  const commandLine = [opts.runner, ...opts.runnerArgs, opts.command].filter(Boolean).join(' ');
+
+  const runnerPath = await findOnPath(opts.runner);
+  checks.push(runnerPath
+    ? { title: `Runner "${opts.runner}"`, status: 'ok', detail: runnerPath, fixes: [] }
+    : {
+      title: `Runner "${opts.runner}"`,
+      status: 'error',
+      detail: `Not found on PATH (${process.env.PATH?.split(path.delimiter).length ?? 0} directories searched).`,
+      fixes: [...(isUv ? [{ kind: 'installUv' as const, label: 'Install uv' }] : []), ...alternatives.map(a => a.fix)],
+    });
+
+  if (runnerPath && !opts.allowRun) {
+    checks.push({
+      title: 'Version checks',
+      status: 'warning',
+      detail: 'Skipped: this workspace\'s runner has not been allowed to run (see "sv2svg: Manage Trusted Runners").',
+      fixes: [],
+    });
+  } else if (runnerPath) {
+    if (opts.command) {
+      const runnerVersion = await version(opts.runner, ['--version'], opts.timeoutMs);
+      checks.push({
+        title: `${path.basename(opts.runner)} --version`,
+        status: runnerVersion.ok ? 'ok' : 'error',
+        detail: runnerVersion.output,
+        fixes: runnerVersion.ok ? [] : alternatives.map(a => a.fix),
+      });
+    }
+    const tool = await version(opts.runner, [...opts.runnerArgs, ...(opts.command ? [opts.command] : []), '--version'], opts.timeoutMs);
+    const fixes: ToolchainFix[] = [];
+    if (!tool.ok && isUv && NETWORK_ERROR.test(tool.output) && !opts.runnerArgs.includes('--offline')) {
+      fixes.push({ kind: 'addOffline', label: 'Add --offline (use the cached sv2svg)' });
+    }
+    if (!tool.ok) fixes.push(...alternatives.map(a => a.fix));
+    checks.push({ title: `${commandLine} --version`, status: tool.ok ? 'ok' : 'error', detail: tool.output, fixes });
+  }
+
+  const python = (await findOnPath('python3')) ?? (await findOnPath('python'));
+  checks.push(python
+    ? { title: 'Python', status: 'ok', detail: python, fixes: [] }
+    : { title: 'Python', status: isUv ? 'info' : 'warning', detail: isUv ? 'Not found on PATH; uv can download a Python itself.' : 'Not found on PATH.', fixes: [] });
+
+  checks.push({
+    title: 'Alternatives',
+    status: 'info',
+    detail: alternatives.length ? alternatives.map(a => a.description).join('\n') : 'No other sv2svg installation found (pipx, virtual environment, global install).',
+    fixes: alternatives.map(a => a.fix).filter(f => !sameSetup(f.setup, opts)),
+  });
+  return checks;
+}
+
+async function detectAlternatives(opts: ToolchainOptions): Promise<{ description: string; fix: Extract<ToolchainFix, { kind: 'useRunner' }> }[]> {
+  const found: { description: string; fix: Extract<ToolchainFix, { kind: 'useRunner' }> }[] = [];
+  const exe = process.platform === 'win32' ? 'sv2svg.exe' : 'sv2svg';
+  const bin = process.platform === 'win32' ? 'Scripts' : 'bin';
+  for (const folder of opts.folders) {
+    for (const dir of VENV_DIRS) {
+      const candidate = path.join(folder, dir, bin, exe);
+      if (await findOnPath(candidate)) {
+        found.push({
+          description: `Virtual environment: ${candidate}`,
+          fix: {
+            kind: 'useRunner',
+            label: `Run ${path.join(dir, bin, exe)} from this workspace`,
+            setup: { runner: candidate, runnerArgs: [], command: '' },
+            inWorkspace: true,
+          },
+        });
+      }
+    }
+  }
+  const global = await findOnPath('sv2svg');
+  if (global) {
+    found.push({ description: `Installed sv2svg: ${global}`, fix: { kind: 'useRunner', label: 'Use the installed sv2svg', setup: { runner: global, runnerArgs: [], command: '' } } });
+  }
+  const pipx = await findOnPath('pipx');
+  if (pipx) {
+    found.push({ description: `pipx: ${pipx}`, fix: { kind: 'useRunner', label: 'Use pipx run sv2svg', setup: { runner: 'pipx', runnerArgs: ['run'], command: 'sv2svg' } } });
+  }
+  const uv = await findOnPath('uv');
+  if (uv && !(await findOnPath('uvx'))) {
+    found.push({ description: `uv (without uvx): ${uv}`, fix: { kind: 'useRunner', label: 'Use uv tool run sv2svg', setup: { runner: 'uv', runnerArgs: ['tool', 'run'], command: 'sv2svg' } } });
+  }
+  return found;
+}
+
+async function version(cmd: string, args: string[], timeout: number): Promise<{ ok: boolean; output: string }> {
+  try {
+    const { stdout, stderr } = await pExecFile(cmd, args, { timeout });
+    return { ok: true, output: (stdout.toString() || stderr.toString()).trim() || '(no output)' };
+  } catch (err: any) {
+    const stderr = err?.stderr?.toString().trim();
+    const reason = err?.killed ? `timed out after ${timeout} ms` : err?.code !== undefined ? `failed (${err.code})` : 'failed';
+    return { ok: false, output: [reason, stderr || err?.message?.trim()].filter(Boolean).join(': ') };
+  }
+}
+
+function sameSetup(a: RunnerSetup | undefined, b: RunnerSetup): boolean {
+  return !!a && a.runner === b.runner && a.command === b.command && a.runnerArgs.join('\0') === b.runnerArgs.join('\0');
+}